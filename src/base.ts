@@ -1,11 +1,61 @@
 import { ParseError } from './errors';
-import { TypeParseResult } from './parse-types';
 import {
+  abortable,
+  createObjectReverseShape,
+  createPropMapFunc,
+  mergeTypeDefRequiredParams,
+  safeParse,
+  safeParseReverse,
+} from './helpers';
+import { getValueType } from './issues';
+import { createIssue } from './messages';
+import {
+  TypeParseResult,
+  createParseObject,
+  createParseObjectAsync,
+} from './parse-types';
+import {
+  DelegateConstraint,
+  EnumConstraint,
+  FunctionConstraint,
+  NoConstraint,
+  ObjectConstraint,
+} from './type-constraints';
+import {
+  Brand,
+  BrandKeyType,
+  CatchContextType,
+  ConstraintIssueType,
+  DeepPartialShapeType,
+  EmptyPropMapType,
+  EnumTypeDef,
+  EnumValueType,
+  ExtendShapeType,
+  FunctionOutputType,
+  FunctionTypeDef,
+  LazyTypeDef,
+  ObjectInputType,
+  ObjectOutputType,
+  ObjectTypeDef,
+  PartialShapeType,
+  ParseOptions,
   PartrialTypeDef,
+  PipeTypeDef,
+  PropMapType,
+  RawShapeType,
+  RefinementContextType,
+  RequiredShapeType,
   SafeParseReturnType,
+  TransformTypeDef,
   TypeDef,
+  TypeOf,
+  UnionTypeDef,
+  UnknownKeysPolicyType,
   UnknownType,
   _AbstractType,
+  _EnumType,
+  _FunctionType,
+  _ObjectType,
 } from './types';
 
 /**
@@ -78,7 +128,14 @@ export class _Type<
   readonly _output!: TOutput;
   readonly _input!: TInput;
   readonly _def!: Def;
-  readonly _parseFn!: (value: unknown) => TypeParseResult<TOutput>;
+  readonly _parseFn!: (
+    value: unknown,
+    options?: ParseOptions
+  ) => TypeParseResult<TOutput>;
+  readonly _parseAsyncFn!: (
+    value: unknown,
+    options?: ParseOptions
+  ) => Promise<TypeParseResult<TOutput>>;
   private _reverseType?: _AbstractType<TInput, Def, TOutput>;
   // The reverse type factory allow to provide a deferred reverse built-type implementation
   private _reverseTypeFactory!:
@@ -94,14 +151,27 @@ export class _Type<
       this._reverseType = this._reverseTypeFactory
         ? this._reverseTypeFactory()
         : undefined;
+      // The reverse type must support nil values supported by the current type
+      if (this._reverseType && this.isOptional()) {
+        this._reverseType.nullish();
+      } else if (this._reverseType && this.isNullable()) {
+        this._reverseType.nullable();
+      }
     }
     return this._reverseType;
   }
 
   constructor(
     def: Def,
-    _parseFn?: (value: unknown) => TypeParseResult<TOutput>,
-    _reverseTypeFactory?: () => _AbstractType<TInput, Def, TOutput>
+    _parseFn?: (
+      value: unknown,
+      options?: ParseOptions
+    ) => TypeParseResult<TOutput>,
+    _reverseTypeFactory?: () => _AbstractType<TInput, Def, TOutput>,
+    _parseAsyncFn?: (
+      value: unknown,
+      options?: ParseOptions
+    ) => Promise<TypeParseResult<TOutput>>
   ) {
     if (def) {
       this._def = def;
@@ -110,17 +180,39 @@ export class _Type<
       _parseFn ??
       ((value: unknown) => new TypeParseResult(value as TOutput, false));
     this._reverseTypeFactory = _reverseTypeFactory;
+    // Types that do not provide an asynchronous parse function fallback
+    // to the synchronous parse function
+    this._parseAsyncFn =
+      _parseAsyncFn ??
+      (async (value: unknown, options?: ParseOptions) =>
+        this._parseFn(value, options));
   }
 
   /**
    * Copy the current object updating type definition and the parse function.
    */
   copy(
-    def: PartrialTypeDef,
-    _parseFn?: (value: unknown) => TypeParseResult<TOutput>
+    def: Partial<Def>,
+    _parseFn?: (
+      value: unknown,
+      options?: ParseOptions
+    ) => TypeParseResult<TOutput>
   ) {
-    const self = this.constructor;
-    return self({ ...this._def, ...def }, _parseFn ?? this._parseFn);
+    const self = this.constructor as new (
+      ...args: unknown[]
+    ) => _Type<TOutput, Def, TInput>;
+    // Constraints are updated in place (e.g. using `nullable()`), so copies
+    // get their own constraint unless one is provided
+    return new self(
+      {
+        ...this._def,
+        ...def,
+        constraint: def.constraint ?? this._def.constraint.clone(),
+      },
+      _parseFn ?? this._parseFn,
+      this._reverseTypeFactory,
+      _parseFn ? undefined : this._parseAsyncFn
+    );
   }
 
   /**
@@ -135,11 +227,11 @@ export class _Type<
    *
    * ```
    */
-  parse<T>(value: T | TInput): TOutput {
-    const result = this.safeParse(value as unknown as TInput);
+  parse<T>(value: T | TInput, options?: ParseOptions): TOutput {
+    const result = this.safeParse(value as unknown as TInput, options);
     if (!result.success) {
       throw new ParseError(
-        result.errors,
+        result.errors ?? [],
         this._def.description
           ? `Failed parsing ${this._def.description} input`
           : undefined
@@ -162,14 +254,196 @@ export class _Type<
    * }
    * ```
    */
-  safeParse<T>(value: T | TInput): SafeParseReturnType<TOutput> {
+  safeParse<T>(
+    value: T | TInput,
+    options?: ParseOptions
+  ): SafeParseReturnType<TOutput> {
+    const input = value;
+    value = this._withDefault(value) as T | TInput;
+    if (this._def.coerce) {
+      value = this._def.coerce(value);
+    }
+    const constraint = this._def.constraint.apply(value, options);
+    const result = !constraint.fails()
+      ? this._safeParseNullish(value, options)
+      : new TypeParseResult(undefined, true, constraint.errors, false);
+    return this._withCatch(
+      input,
+      this._withRefinements(this._createSafeParseResult(result), options)
+    );
+  }
+
+  /**
+   * Asynchronously parse user provided value using the built-type.
+   * The returned promise rejects with a `ParseError` if the parsing fails.
+   *
+   * ```ts
+   * const type = new BuiltType._object({ ... })
+   *
+   * // parsing a value using the type built type
+   * const result = await type.parseAsync({ ... }); // throws `ParseError`
+   *
+   * ```
+   */
+  async parseAsync<T>(
+    value: T | TInput,
+    options?: ParseOptions
+  ): Promise<TOutput> {
+    const result = await this.safeParseAsync(value, options);
+    if (!result.success) {
+      throw new ParseError(
+        result.errors ?? [],
+        this._def.description
+          ? `Failed parsing ${this._def.description} input`
+          : undefined
+      );
+    }
+    return result.data as TOutput;
+  }
+
+  /**
+   * Asynchronously parse user provided value using the built-type. Asynchronous
+   * constraint rules are supported, and object properties and collection
+   * items are parsed concurrently.
+   *
+   * ```ts
+   * const type = new BuiltType._object({ ... })
+   *
+   * // parsing a value using the type built type
+   * const controller = new AbortController();
+   * const result = await type.safeParseAsync({ ... }, { signal: controller.signal });
+   *
+   * if (result.success) {
+   *  console.log(result.data);
+   * }
+   * ```
+   */
+  async safeParseAsync<T>(
+    value: T | TInput,
+    options?: ParseOptions
+  ): Promise<SafeParseReturnType<TOutput>> {
+    options?.signal?.throwIfAborted();
+    const input = value;
+    value = this._withDefault(value) as T | TInput;
     if (this._def.coerce) {
       value = this._def.coerce(value);
     }
-    const constraint = this._def.constraint.apply(value);
+    const constraint = await abortable(
+      this._def.constraint.applyAsync(value, options),
+      options?.signal
+    );
     const result = !constraint.fails()
-      ? this._safeParseNullish(value)
+      ? await this._safeParseNullishAsync(value, options)
       : new TypeParseResult(undefined, true, constraint.errors, false);
+    return this._withCatch(
+      input,
+      await this._withRefinementsAsync(
+        this._createSafeParseResult(result),
+        options
+      )
+    );
+  }
+
+  /**
+   * Substitutes `undefined` values with the type default value if any
+   */
+  protected _withDefault(value: unknown) {
+    return typeof value === 'undefined' && this._def.defaultValue
+      ? this._def.defaultValue()
+      : value;
+  }
+
+  /**
+   * Applies the type refinements on successfully parsed values. Nil values
+   * accepted by the type constraint are not refined.
+   */
+  protected _withRefinements(
+    result: SafeParseReturnType<TOutput>,
+    options?: ParseOptions
+  ): SafeParseReturnType<TOutput> {
+    if (!this._shouldRefine(result)) {
+      return result;
+    }
+    const constraint = this._def.refinements!.apply(result.data, options);
+    return constraint.fails()
+      ? { success: false, errors: constraint.errors }
+      : result;
+  }
+
+  /**
+   * Asynchronously applies the type refinements on successfully parsed
+   * values, which allows asynchronous refinements to be used.
+   */
+  protected async _withRefinementsAsync(
+    result: SafeParseReturnType<TOutput>,
+    options?: ParseOptions
+  ): Promise<SafeParseReturnType<TOutput>> {
+    if (!this._shouldRefine(result)) {
+      return result;
+    }
+    const constraint = await abortable(
+      this._def.refinements!.applyAsync(result.data, options),
+      options?.signal
+    );
+    return constraint.fails()
+      ? { success: false, errors: constraint.errors }
+      : result;
+  }
+
+  private _shouldRefine(result: SafeParseReturnType<TOutput>) {
+    const { constraint, refinements } = this._def;
+    return (
+      result.success &&
+      typeof refinements !== 'undefined' &&
+      !(result.data === null && constraint.acceptsNull) &&
+      !(typeof result.data === 'undefined' && constraint.acceptsUndefined)
+    );
+  }
+
+  /**
+   * Replaces failed parse results with the type fallback value if any
+   */
+  protected _withCatch(
+    input: unknown,
+    result: SafeParseReturnType<TOutput>
+  ): SafeParseReturnType<TOutput> {
+    return !result.success && this._def.catchValue
+      ? {
+          success: true,
+          errors: undefined,
+          data: this._def.catchValue({ errors: result.errors ?? [], input }),
+        }
+      : result;
+  }
+
+  /**
+   * Checks if the value is a nil value returned without being parsed. Null
+   * values accepted by the constraint are not parsed, as type parsers, like
+   * union parsers, might reject them.
+   */
+  private _isNil(value: unknown) {
+    return (
+      typeof value === 'undefined' ||
+      (value === null &&
+        (this._def.constraint.acceptsNull === true || this.isOptional()))
+    );
+  }
+
+  private _safeParseNullish(value: unknown, options?: ParseOptions) {
+    return this._isNil(value)
+      ? new TypeParseResult(value, false, undefined, false)
+      : this._parseFn(value, options);
+  }
+
+  private _safeParseNullishAsync(value: unknown, options?: ParseOptions) {
+    return this._isNil(value)
+      ? Promise.resolve(new TypeParseResult(value, false, undefined, false))
+      : abortable(this._parseAsyncFn(value, options), options?.signal);
+  }
+
+  private _createSafeParseResult(
+    result: TypeParseResult<unknown>
+  ): SafeParseReturnType<TOutput> {
     return result.fails
       ? {
           success: false,
@@ -178,16 +452,10 @@ export class _Type<
       : {
           success: true,
           errors: undefined,
-          data: result.data,
+          data: result.data as TOutput,
         };
   }
 
-  private _safeParseNullish(value: unknown) {
-    return typeof value === 'undefined' || (value === null && this.isOptional())
-      ? new TypeParseResult(value, false, undefined, false)
-      : this._parseFn(value);
-  }
-
   rawParse(value: TInput) {
     if (this._def.coerce) {
       value = this._def.coerce(value);
@@ -200,7 +468,7 @@ export class _Type<
    * type support optional values
    */
   isOptional(): boolean {
-    return this.safeParse(undefined).success;
+    return acceptsNil(this, undefined);
   }
 
   /**
@@ -208,7 +476,7 @@ export class _Type<
    * type support null values
    */
   isNullable(): boolean {
-    return this.safeParse(null).success;
+    return acceptsNil(this, null);
   }
 
   nullable() {
@@ -221,17 +489,149 @@ export class _Type<
     return this;
   }
 
+  optional() {
+    this._def.constraint?.optional();
+    return this as _AbstractType<TOutput | undefined, Def, TInput | undefined>;
+  }
+
   /**
    * Describe the built-type
    */
   describe(description: string) {
-    const self = this.constructor as new (
-      ...args: unknown[]
-    ) => _Type<TOutput, Def, TInput>;
-    return new self({
-      ...this._def,
-      description,
-    });
+    return this.copy({ description } as Partial<Def>);
+  }
+
+  /**
+   * Attach example input values to the built-type
+   */
+  examples(values: TInput[]) {
+    return this.copy({ examples: values } as Partial<Def>);
+  }
+
+  /**
+   * Add a custom rule applied on parsed values
+   */
+  refine(
+    fn: (value: TOutput) => boolean,
+    message?: string | ConstraintIssueType
+  ) {
+    return this.copy({
+      refinements: this._refinements().refine(fn, message),
+    } as Partial<Def>);
+  }
+
+  /**
+   * Add a custom rule applied on parsed values, that can report multiple issues
+   */
+  superRefine(
+    fn: (value: TOutput, ctx: RefinementContextType) => void | Promise<void>
+  ) {
+    return this.copy({
+      refinements: this._refinements().superRefine(fn),
+    } as Partial<Def>);
+  }
+
+  /**
+   * Returns a copy of the type refinements, to which rules can be added
+   */
+  private _refinements() {
+    return this._def.refinements?.clone() ?? new NoConstraint();
+  }
+
+  /**
+   * Set the value used when parsing `undefined` values. The default value
+   * is substituted before coercion and constraints are applied.
+   */
+  default(
+    value: Exclude<TOutput, undefined> | (() => Exclude<TOutput, undefined>)
+  ) {
+    return this.copy({
+      defaultValue: typeof value === 'function' ? value : () => value,
+      staticDefault: typeof value === 'function' ? undefined : { value },
+    } as Partial<Def>) as unknown as _AbstractType<
+      Exclude<TOutput, undefined>,
+      Def,
+      TInput | undefined
+    >;
+  }
+
+  /**
+   * Set the value returned when parsing fails. Parse errors are provided
+   * to `value` when it is a function.
+   */
+  catch(value: TOutput | ((ctx: CatchContextType) => TOutput)) {
+    return this.copy({
+      catchValue: typeof value === 'function' ? value : () => value,
+      staticCatch: typeof value === 'function' ? undefined : { value },
+    } as Partial<Def>);
+  }
+
+  /**
+   * Creates a type that maps values parsed by the current type using `fn`
+   */
+  transform<U>(fn: (value: TOutput) => U | Promise<U>) {
+    return createTransformType(this as _AbstractType<TOutput, Def, TInput>, fn);
+  }
+
+  /**
+   * Creates a type that parses the current type output using `type`
+   */
+  pipe<T extends TypeAny>(type: T) {
+    return createPipeType(this as _AbstractType<TOutput, Def, TInput>, type);
+  }
+
+  /**
+   * Add a compile time brand to the built-type output
+   */
+  brand<B extends BrandKeyType>() {
+    // brands only exist at compile time, therefore the type instance is returned
+    return this as unknown as _AbstractType<TOutput & Brand<B>, Def, TInput>;
+  }
+}
+
+/**
+ * @internal
+ *
+ * Checks if the type accepts the nil value using its definition, without
+ * parsing the value, so that default and catch values are not evaluated.
+ * Object types are not nil types even though they coerce `null` values.
+ */
+function acceptsNil(
+  _type: TypeAny,
+  value: null | undefined,
+  seen = new Set<TypeAny>()
+): boolean {
+  const def = _type._def as TypeDef;
+  const { constraint } = def;
+  if (
+    (value === null ? constraint.acceptsNull : constraint.acceptsUndefined) ||
+    (typeof value === 'undefined' && def.defaultValue)
+  ) {
+    return true;
+  }
+  // recursive types might reference themselves through lazy types
+  if (seen.has(_type)) {
+    return false;
+  }
+  seen.add(_type);
+  switch (def.kind) {
+    case 'union':
+    case 'discriminatedUnion':
+      return (def as UnionTypeDef<TypeAny[]>).options.some((option) =>
+        acceptsNil(option, value, seen)
+      );
+    case 'lazy':
+      return acceptsNil((def as LazyTypeDef<TypeAny>).getter(), value, seen);
+    case 'transform':
+      return acceptsNil((def as TransformTypeDef<TypeAny>).type, value, seen);
+    case 'pipe':
+      return acceptsNil((def as PipeTypeDef<TypeAny, TypeAny>).in, value, seen);
+    case 'object':
+      return false;
+    default:
+      return typeof constraint.expectType === 'string'
+        ? typeof value === constraint.expectType
+        : constraint.expectType(value);
   }
 }
 
@@ -241,6 +641,917 @@ export const createType = <
   TInput = UnknownType,
 >(
   def: Def,
-  _parseFn?: (value: UnknownType) => TypeParseResult<TOutput>,
-  _reverseTypeFactory?: () => _AbstractType<TInput, Def, TOutput>
-) => new _Type<TOutput, Def, TInput>(def, _parseFn, _reverseTypeFactory);
+  _parseFn?: (
+    value: UnknownType,
+    options?: ParseOptions
+  ) => TypeParseResult<TOutput>,
+  _reverseTypeFactory?: () => _AbstractType<TInput, Def, TOutput>,
+  _parseAsyncFn?: (
+    value: UnknownType,
+    options?: ParseOptions
+  ) => Promise<TypeParseResult<TOutput>>
+) =>
+  new _Type<TOutput, Def, TInput>(
+    def,
+    _parseFn,
+    _reverseTypeFactory,
+    _parseAsyncFn
+  );
+
+/**
+ * @internal
+ *
+ * Object built type class. Besides parsing objects, it allows developpers
+ * to derive new object types from the current object shape.
+ *
+ * ```ts
+ * import { BuiltType } from '@azlabsjs/built-type';
+ *
+ * const user = BuiltType._object({
+ *    id: BuiltType._num(),
+ *    firstname: BuiltType._str(),
+ *    password: BuiltType._str(),
+ * }, { firstname: 'first_name' });
+ *
+ * const create = user.omit(['id']);
+ * const update = create.partial();
+ * const view = user.omit(['password']).extend({ fullname: BuiltType._str() });
+ * ```
+ */
+export class _Object<
+  T extends RawShapeType,
+  P extends PropMapType = EmptyPropMapType,
+> extends _Type<ObjectOutputType<T>, ObjectTypeDef<T>, ObjectInputType<T, P>> {
+  get shape() {
+    return this._def.shape;
+  }
+
+  constructor(
+    def: ObjectTypeDef<T>,
+    _parseFn?: (
+      value: unknown,
+      options?: ParseOptions
+    ) => TypeParseResult<ObjectOutputType<T>>,
+    _reverseTypeFactory?: () => _AbstractType<
+      ObjectOutputType<T>,
+      ObjectTypeDef<T>
+    >,
+    _parseAsyncFn?: (
+      value: unknown,
+      options?: ParseOptions
+    ) => Promise<TypeParseResult<ObjectOutputType<T>>>
+  ) {
+    super(
+      def,
+      _parseFn ??
+        createParseObject<ObjectOutputType<T>>(
+          createPropMapFunc(def.shape, def.propMap),
+          (_type, value, options) => safeParse(value, _type, options),
+          def
+        ),
+      // Provide an object reverse type factory function
+      // which is internally invoked if developper request for a reverseType instance
+      _reverseTypeFactory ??
+        (() => {
+          const [_shape, _propMap, _def] = createObjectReverseShape(
+            def.shape,
+            def.propMap,
+            { description: def.description }
+          );
+          const unknownKeys = {
+            unknownKeys: def.unknownKeys,
+            catchall: def.catchall,
+          };
+          return createType(
+            { ..._def, ...unknownKeys },
+            createParseObject(
+              createPropMapFunc(
+                _shape,
+                _propMap as Partial<Record<keyof typeof _shape, string>>
+              ),
+              (_type, value, options) =>
+                safeParseReverse(
+                  value,
+                  _type as _AbstractType<UnknownType> & {
+                    reverseType: _AbstractType<unknown>;
+                  },
+                  options
+                ),
+              unknownKeys
+            )
+          ) as _AbstractType<UnknownType, UnknownType>;
+        }),
+      _parseAsyncFn ??
+        createParseObjectAsync<ObjectOutputType<T>>(
+          createPropMapFunc(def.shape, def.propMap),
+          def
+        )
+    );
+  }
+
+  extend<
+    U extends RawShapeType,
+    const PU extends PropMapType<U> = EmptyPropMapType,
+  >(
+    shape: U,
+    propMap?: PU
+  ): _ObjectType<ExtendShapeType<T, U>, Omit<P, keyof U> & PU> {
+    const _propMap = { ...this._def.propMap } as Record<string, string>;
+    // Extending shape properties replace current properties, therefore
+    // their input key bindings are removed
+    for (const key in shape) {
+      delete _propMap[key];
+    }
+    return this._derive<ExtendShapeType<T, U>>(
+      { ...this.shape, ...shape } as ExtendShapeType<T, U>,
+      { ..._propMap, ...(propMap ?? {}) } as Partial<{
+        [k in keyof ExtendShapeType<T, U>]: string;
+      }>
+    );
+  }
+
+  merge<U extends RawShapeType, PU extends PropMapType<U>>(
+    other: _ObjectType<U, PU>
+  ): _ObjectType<ExtendShapeType<T, U>, Omit<P, keyof U> & PU> {
+    return this.extend(other._def.shape, other._def.propMap as PU);
+  }
+
+  pick<K extends keyof T>(
+    keys: readonly K[]
+  ): _ObjectType<Pick<T, K>, Pick<P, K & keyof P>> {
+    return this._derive(
+      this._filter((k) => keys.includes(k as K)) as Pick<T, K>
+    );
+  }
+
+  omit<K extends keyof T>(
+    keys: readonly K[]
+  ): _ObjectType<Omit<T, K>, Omit<P, K>> {
+    return this._derive(
+      this._filter((k) => !keys.includes(k as K)) as Omit<T, K>
+    );
+  }
+
+  partial(): _ObjectType<PartialShapeType<T>, P>;
+  partial<K extends keyof T>(
+    keys: readonly K[]
+  ): _ObjectType<PartialShapeType<T, K>, P>;
+  partial(keys?: readonly (keyof T)[]) {
+    return this._derive(
+      this._map((k, t) =>
+        !keys || keys.includes(k)
+          ? t.copy({ constraint: t._def.constraint.clone().nullish() })
+          : t
+      )
+    );
+  }
+
+  deepPartial(): _ObjectType<DeepPartialShapeType<T>, P> {
+    return this._derive(
+      this._map((_, t) =>
+        (t instanceof _Object ? t.deepPartial() : t).copy({
+          constraint: t._def.constraint.clone().nullish(),
+        })
+      )
+    );
+  }
+
+  required(): _ObjectType<RequiredShapeType<T>, P>;
+  required<K extends keyof T>(
+    keys: readonly K[]
+  ): _ObjectType<RequiredShapeType<T, K>, P>;
+  required(keys?: readonly (keyof T)[]) {
+    return this._derive(
+      this._map((k, t) =>
+        !keys || keys.includes(k)
+          ? t.copy({ constraint: t._def.constraint.clone().nonnullish() })
+          : t
+      )
+    );
+  }
+
+  strict(): _ObjectType<T, P> {
+    return this._withUnknownKeys('strict');
+  }
+
+  passthrough(): _ObjectType<T, P> {
+    return this._withUnknownKeys('passthrough');
+  }
+
+  strip(): _ObjectType<T, P> {
+    return this._withUnknownKeys('strip');
+  }
+
+  catchall(type: TypeAny): _ObjectType<T, P> {
+    return this._withUnknownKeys(this._def.unknownKeys, type);
+  }
+
+  private _withUnknownKeys(
+    unknownKeys?: UnknownKeysPolicyType,
+    catchall?: TypeAny
+  ) {
+    // The object type is created from its definition, so that parse functions
+    // and the reverse type use the unknown keys policy
+    return new _Object<T, P>({
+      ...this._def,
+      constraint: this._def.constraint.clone(),
+      unknownKeys,
+      catchall,
+    }) as unknown as _ObjectType<T, P>;
+  }
+
+  private _filter(predicate: (key: keyof T) => boolean) {
+    const shape = {} as RawShapeType;
+    for (const key in this.shape) {
+      if (predicate(key)) {
+        shape[key] = this.shape[key];
+      }
+    }
+    return shape;
+  }
+
+  private _map(fn: (key: keyof T, t: TypeAny) => TypeAny) {
+    const shape = {} as RawShapeType;
+    for (const key in this.shape) {
+      shape[key] = fn(key, this.shape[key]);
+    }
+    return shape;
+  }
+
+  private _derive<U extends RawShapeType>(
+    shape: U,
+    propMap?: Partial<{ [k in keyof U]: string }>
+  ) {
+    // By default, derived object types keep the current object input key bindings
+    const _propMap = {} as Partial<{ [k in keyof U]: string }>;
+    for (const key in shape) {
+      const inputKey = propMap
+        ? propMap[key]
+        : (this._def.propMap as Partial<Record<string, string>>)[key];
+      if (inputKey) {
+        _propMap[key] = inputKey;
+      }
+    }
+    return new _Object<U>({
+      kind: 'object',
+      constraint: this._def.constraint.clone(),
+      description: this.description,
+      shape,
+      propMap: _propMap,
+      unknownKeys: this._def.unknownKeys,
+      catchall: this._def.catchall,
+    }) as UnknownType;
+  }
+}
+
+export const createObjectType = <
+  T extends RawShapeType,
+  P extends PropMapType<T> = EmptyPropMapType,
+>(
+  shape: T,
+  propMap: P = {} as P,
+  def?: Omit<PartrialTypeDef, 'coerce'>
+) =>
+  new _Object<T, P>({
+    ...mergeTypeDefRequiredParams(new ObjectConstraint(), def),
+    kind: 'object',
+    shape,
+    propMap,
+  }) as unknown as _ObjectType<T, P>;
+
+/**
+ * @internal
+ *
+ * Lazy built type class. Lazy types resolve the type used to parse values
+ * on first parse, which allow developpers to reference types before they are
+ * declared, as required by recursive structures.
+ *
+ * ```ts
+ * import { AbstractType, BuiltType } from '@azlabsjs/built-type';
+ *
+ * type Category = { name: string; children: Category[] };
+ *
+ * const category: AbstractType<Category> = BuiltType._object({
+ *    name: BuiltType._str(),
+ *    children: BuiltType._array(BuiltType._lazy(() => category)),
+ * });
+ * ```
+ */
+export class _Lazy<T extends TypeAny> extends _Type<
+  TypeOf<T>,
+  LazyTypeDef<T>,
+  T['_input']
+> {
+  private _resolved?: T;
+
+  // Values that are being parsed by the current lazy type. They are used
+  // to detect cyclic input values, which would otherwise recurse infinitely
+  private readonly _values = new Set<unknown>();
+
+  get type() {
+    if (!this._resolved) {
+      this._resolved = this._def.getter();
+    }
+    return this._resolved;
+  }
+
+  constructor(
+    def: LazyTypeDef<T>,
+    _parseFn?: (
+      value: unknown,
+      options?: ParseOptions
+    ) => TypeParseResult<TypeOf<T>>,
+    _reverseTypeFactory?: () => _AbstractType<
+      T['_input'],
+      LazyTypeDef<T>,
+      TypeOf<T>
+    >,
+    _parseAsyncFn?: (
+      value: unknown,
+      options?: ParseOptions
+    ) => Promise<TypeParseResult<TypeOf<T>>>
+  ) {
+    super(
+      def,
+      _parseFn ??
+        ((value: unknown, options?: ParseOptions) => {
+          const result = def.getter().safeParse(value, options);
+          return new TypeParseResult(
+            result.data,
+            !result.success,
+            result.errors,
+            false
+          );
+        }),
+      _reverseTypeFactory ??
+        (() => {
+          // case the resolved type does not provide a reverse type, the lazy
+          // type does not provide a reverse type either
+          const _reverse = () =>
+            (def.getter() as T & { reverseType?: TypeAny }).reverseType;
+          return _reverse()
+            ? (createLazyType(() => _reverse() as TypeAny, {
+                description: def.description,
+              }) as UnknownType)
+            : undefined;
+        }),
+      _parseAsyncFn ??
+        (async (value: unknown, options?: ParseOptions) => {
+          const result = await def.getter().safeParseAsync(value, options);
+          return new TypeParseResult(
+            result.data,
+            !result.success,
+            result.errors,
+            false
+          );
+        })
+    );
+  }
+
+  safeParse<TValue>(
+    value: TValue | T['_input'],
+    options?: ParseOptions
+  ): SafeParseReturnType<TypeOf<T>> {
+    return this._withCatch(
+      value,
+      this._withRefinements(
+        this._safeParseLazy(this._withDefault(value), options),
+        options
+      )
+    );
+  }
+
+  async safeParseAsync<TValue>(
+    value: TValue | T['_input'],
+    options?: ParseOptions
+  ): Promise<SafeParseReturnType<TypeOf<T>>> {
+    return this._withCatch(
+      value,
+      await this._withRefinementsAsync(
+        await this._safeParseLazyAsync(this._withDefault(value), options),
+        options
+      )
+    );
+  }
+
+  private _safeParseLazy(
+    value: unknown,
+    options?: ParseOptions
+  ): SafeParseReturnType<TypeOf<T>> {
+    // case the lazy type is nullable or nullish, nil values are returned
+    // without resolving the lazy type
+    if (
+      (typeof value === 'undefined' || value === null) &&
+      !this._def.constraint.apply(value, options).fails()
+    ) {
+      return { success: true, errors: undefined, data: value as null };
+    }
+    if (typeof value !== 'object' || value === null) {
+      return this.type.safeParse(value, options);
+    }
+    if (this._values.has(value)) {
+      return {
+        success: false,
+        errors: [createCircularReferenceIssue(options)],
+      };
+    }
+    this._values.add(value);
+    try {
+      return this.type.safeParse(value, options);
+    } finally {
+      this._values.delete(value);
+    }
+  }
+
+  private async _safeParseLazyAsync(
+    value: unknown,
+    options?: ParseOptions
+  ): Promise<SafeParseReturnType<TypeOf<T>>> {
+    options?.signal?.throwIfAborted();
+    if (
+      (typeof value === 'undefined' || value === null) &&
+      !(await this._def.constraint.applyAsync(value, options)).fails()
+    ) {
+      return { success: true, errors: undefined, data: value as null };
+    }
+    if (typeof value !== 'object' || value === null) {
+      return this.type.safeParseAsync(value, options);
+    }
+    // Concurrent parsing calls share the lazy type instance, therefore values
+    // being parsed are tracked through the parse options instead of the
+    // lazy type instance
+    const ancestors = options?.ancestors ?? [];
+    if (ancestors.includes(value)) {
+      return {
+        success: false,
+        errors: [createCircularReferenceIssue(options)],
+      };
+    }
+    return this.type.safeParseAsync(value, {
+      ...options,
+      ancestors: [...ancestors, value],
+    });
+  }
+}
+
+export const createLazyType = <T extends TypeAny>(
+  getter: () => T,
+  def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+) =>
+  new _Lazy<T>({
+    ...mergeTypeDefRequiredParams(new DelegateConstraint(), def),
+    kind: 'lazy',
+    getter,
+  });
+
+/** @internal */
+function createCircularReferenceIssue(options?: ParseOptions) {
+  return createIssue({ code: 'circular_reference', path: [] }, options?.locale);
+}
+
+/**
+ * @internal
+ *
+ * Enum built type class. It restricts parsed values to a fixed set of
+ * values and allow developpers to derive sub-enums from the current enum.
+ *
+ * ```ts
+ * import { BuiltType } from '@azlabsjs/built-type';
+ *
+ * const status = BuiltType._enum(['draft', 'published', 'archived']);
+ *
+ * status.options; // ['draft', 'published', 'archived']
+ * status.enum.draft; // 'draft'
+ *
+ * const visible = status.exclude(['archived']); // 'draft' | 'published'
+ * ```
+ */
+export class _Enum<T extends EnumValueType>
+  extends _Type<T, EnumTypeDef<T>>
+  implements _EnumType<T>
+{
+  get options() {
+    return this._def.values;
+  }
+
+  get enum() {
+    return this._def.entries;
+  }
+
+  extract<U extends T>(values: readonly U[]): _EnumType<U> {
+    return createEnumType(
+      Object.fromEntries(
+        Object.entries(this.enum).filter(([, v]) =>
+          (values as readonly T[]).includes(v)
+        )
+      ) as Record<string, U>,
+      { description: this.description }
+    );
+  }
+
+  exclude<U extends T>(values: readonly U[]): _EnumType<Exclude<T, U>> {
+    return createEnumType(
+      Object.fromEntries(
+        Object.entries(this.enum).filter(
+          ([, v]) => !(values as readonly T[]).includes(v)
+        )
+      ) as Record<string, Exclude<T, U>>,
+      { description: this.description }
+    );
+  }
+}
+
+export const createEnumType = <T extends EnumValueType>(
+  entries: Record<string, T>,
+  def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+) => {
+  const values = Object.values(entries);
+  return new _Enum<T>({
+    ...mergeTypeDefRequiredParams(new EnumConstraint(values), def),
+    kind: 'enum',
+    values,
+    entries,
+  });
+};
+
+/** @internal */
+function parseFunctionResult<T>(
+  result: SafeParseReturnType<T>,
+  message: string
+) {
+  if (!result.success) {
+    throw new ParseError(result.errors ?? [], message);
+  }
+  return result.data as T;
+}
+
+/**
+ * @internal
+ *
+ * Wraps `fn` in a function that parses its arguments using the `args` tuple
+ * type and its return value, or its resolved value, using the `returns` type
+ */
+function implementFunction(
+  args: _AbstractType<UnknownType[], UnknownType, UnknownType>,
+  returns: TypeAny,
+  fn: (...args: UnknownType[]) => unknown
+) {
+  return function (this: unknown, ...values: unknown[]) {
+    const result = fn.apply(
+      this,
+      parseFunctionResult(
+        args.safeParse(values),
+        'Function arguments do not match the function parameters type'
+      )
+    );
+    const message =
+      'Function return value does not match the function return type';
+    return result instanceof Promise
+      ? result.then(async (value) =>
+          parseFunctionResult(await returns.safeParseAsync(value), message)
+        )
+      : parseFunctionResult(returns.safeParse(result), message);
+  };
+}
+
+/**
+ * @internal
+ *
+ * Function built type class. Parsed functions are wrapped in functions that
+ * parse their arguments and their return value using the function type.
+ *
+ * ```ts
+ * import { BuiltType } from '@azlabsjs/built-type';
+ *
+ * const greet = BuiltType._function(
+ *    BuiltType._tuple([BuiltType._str()]),
+ *    BuiltType._str()
+ * ).implement((name) => `Hello ${name}`);
+ *
+ * greet('John'); // 'Hello John'
+ * ```
+ */
+export class _Function<
+    TArgs extends _AbstractType<UnknownType[], UnknownType, UnknownType>,
+    TReturn extends TypeAny,
+  >
+  extends _Type<
+    FunctionOutputType<TArgs, TReturn>,
+    FunctionTypeDef<TArgs, TReturn>
+  >
+  implements _FunctionType<TArgs, TReturn>
+{
+  get parameters() {
+    return this._def.args;
+  }
+
+  get returnType() {
+    return this._def.returns;
+  }
+
+  constructor(
+    def: FunctionTypeDef<TArgs, TReturn>,
+    _parseFn?: (
+      value: unknown
+    ) => TypeParseResult<FunctionOutputType<TArgs, TReturn>>,
+    _reverseTypeFactory?: () => _AbstractType<
+      FunctionOutputType<TArgs, TReturn>,
+      FunctionTypeDef<TArgs, TReturn>
+    >,
+    _parseAsyncFn?: (
+      value: unknown,
+      options?: ParseOptions
+    ) => Promise<TypeParseResult<FunctionOutputType<TArgs, TReturn>>>
+  ) {
+    super(
+      def,
+      _parseFn ??
+        ((value: unknown) =>
+          new TypeParseResult(
+            implementFunction(
+              def.args,
+              def.returns,
+              value as (...args: UnknownType[]) => unknown
+            ) as FunctionOutputType<TArgs, TReturn>,
+            false
+          )),
+      _reverseTypeFactory,
+      _parseAsyncFn
+    );
+  }
+
+  implement<
+    F extends (
+      ...args: TypeOf<TArgs>
+    ) => TypeOf<TReturn> | Promise<TypeOf<TReturn>>,
+  >(
+    fn: F
+  ): (
+    ...args: TypeOf<TArgs>
+  ) => ReturnType<F> extends Promise<unknown>
+    ? Promise<TypeOf<TReturn>>
+    : TypeOf<TReturn> {
+    return implementFunction(
+      this._def.args,
+      this._def.returns,
+      fn
+    ) as UnknownType;
+  }
+}
+
+export const createFunctionType = <
+  TArgs extends _AbstractType<UnknownType[], UnknownType, UnknownType>,
+  TReturn extends TypeAny,
+>(
+  args: TArgs,
+  returns: TReturn,
+  def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+) =>
+  new _Function<TArgs, TReturn>({
+    ...mergeTypeDefRequiredParams(new FunctionConstraint(), def),
+    kind: 'function',
+    args,
+    returns,
+  });
+
+/**
+ * @internal
+ *
+ * Creates the failed result of a transform function that throws. The issue
+ * message is resolved from the locale catalog, and the thrown error message
+ * is provided as the `error` issue parameter.
+ */
+function createTransformErrorResult(
+  value: unknown,
+  error: unknown,
+  options?: ParseOptions
+) {
+  return {
+    success: false,
+    errors: [
+      createIssue(
+        {
+          code: 'custom',
+          path: [],
+          received: getValueType(value),
+          params: {
+            error: error instanceof Error ? error.message : String(error),
+          },
+        },
+        options?.locale
+      ),
+    ],
+  };
+}
+
+/**
+ * @internal
+ *
+ * Transform built type class. Values are parsed using the transformed type,
+ * and the parsed values are mapped using the transform function.
+ *
+ * ```ts
+ * import { BuiltType } from '@azlabsjs/built-type';
+ *
+ * const length = BuiltType._str().transform((value) => value.length);
+ *
+ * length.parse('Hello'); // 5
+ * ```
+ */
+export class _Transform<T extends TypeAny, TOutput> extends _Type<
+  TOutput,
+  TransformTypeDef<T, TOutput>,
+  T['_input']
+> {
+  safeParse<TValue>(
+    value: TValue | T['_input'],
+    options?: ParseOptions
+  ): SafeParseReturnType<TOutput> {
+    const _value = this._withDefault(value);
+    // case the transform type is nullable or nullish, nil values are returned
+    // without being parsed by the transformed type
+    if (
+      (typeof _value === 'undefined' || _value === null) &&
+      !this._def.constraint.apply(_value, options).fails()
+    ) {
+      return { success: true, errors: undefined, data: _value as null };
+    }
+    const result = this._def.type.safeParse(_value, options);
+    if (!result.success) {
+      return this._withCatch(value, result);
+    }
+    let data: TOutput | Promise<TOutput>;
+    try {
+      data = this._def.transform(result.data);
+    } catch (error) {
+      return this._withCatch(
+        value,
+        createTransformErrorResult(result.data, error, options)
+      );
+    }
+    if (data instanceof Promise) {
+      throw new Error(
+        'Transform function returns a promise, use parseAsync() or safeParseAsync() to parse the value'
+      );
+    }
+    return this._withCatch(
+      value,
+      this._withRefinements({ success: true, errors: undefined, data }, options)
+    );
+  }
+
+  async safeParseAsync<TValue>(
+    value: TValue | T['_input'],
+    options?: ParseOptions
+  ): Promise<SafeParseReturnType<TOutput>> {
+    options?.signal?.throwIfAborted();
+    const _value = this._withDefault(value);
+    if (
+      (typeof _value === 'undefined' || _value === null) &&
+      !(await this._def.constraint.applyAsync(_value, options)).fails()
+    ) {
+      return { success: true, errors: undefined, data: _value as null };
+    }
+    const result = await this._def.type.safeParseAsync(_value, options);
+    if (!result.success) {
+      return this._withCatch(value, result);
+    }
+    let data: TOutput;
+    try {
+      data = await this._def.transform(result.data);
+    } catch (error) {
+      return this._withCatch(
+        value,
+        createTransformErrorResult(result.data, error, options)
+      );
+    }
+    return this._withCatch(
+      value,
+      await this._withRefinementsAsync(
+        { success: true, errors: undefined, data },
+        options
+      )
+    );
+  }
+}
+
+export const createTransformType = <T extends TypeAny, TOutput>(
+  type: T,
+  transform: (value: TypeOf<T>) => TOutput | Promise<TOutput>,
+  def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+) =>
+  new _Transform<T, TOutput>({
+    ...mergeTypeDefRequiredParams(new DelegateConstraint(), {
+      description: type._def.description,
+      ...def,
+    }),
+    kind: 'transform',
+    type,
+    transform,
+  });
+
+/**
+ * @internal
+ *
+ * Pipe built type class. Values are parsed using the `in` type, and the `in`
+ * type output is parsed using the `out` type.
+ *
+ * ```ts
+ * import { BuiltType } from '@azlabsjs/built-type';
+ *
+ * const age = BuiltType._str()
+ *    .transform((value) => parseInt(value, 10))
+ *    .pipe(BuiltType._num());
+ *
+ * age.parse('21'); // 21
+ * ```
+ */
+export class _Pipe<TIn extends TypeAny, TOut extends TypeAny> extends _Type<
+  TypeOf<TOut>,
+  PipeTypeDef<TIn, TOut>,
+  TIn['_input']
+> {
+  safeParse<TValue>(
+    value: TValue | TIn['_input'],
+    options?: ParseOptions
+  ): SafeParseReturnType<TypeOf<TOut>> {
+    const _value = this._withDefault(value);
+    // case the pipe type is nullable or nullish, nil values are returned
+    // without being parsed by the piped types
+    if (
+      (typeof _value === 'undefined' || _value === null) &&
+      !this._def.constraint.apply(_value, options).fails()
+    ) {
+      return { success: true, errors: undefined, data: _value as null };
+    }
+    const result = this._def.in.safeParse(_value, options);
+    return this._withCatch(
+      value,
+      result.success
+        ? this._withRefinements(
+            this._def.out.safeParse(result.data, options),
+            options
+          )
+        : result
+    );
+  }
+
+  async safeParseAsync<TValue>(
+    value: TValue | TIn['_input'],
+    options?: ParseOptions
+  ): Promise<SafeParseReturnType<TypeOf<TOut>>> {
+    options?.signal?.throwIfAborted();
+    const _value = this._withDefault(value);
+    if (
+      (typeof _value === 'undefined' || _value === null) &&
+      !(await this._def.constraint.applyAsync(_value, options)).fails()
+    ) {
+      return { success: true, errors: undefined, data: _value as null };
+    }
+    const result = await this._def.in.safeParseAsync(_value, options);
+    return this._withCatch(
+      value,
+      result.success
+        ? await this._withRefinementsAsync(
+            await this._def.out.safeParseAsync(result.data, options),
+            options
+          )
+        : result
+    );
+  }
+}
+
+export const createPipeType = <TIn extends TypeAny, TOut extends TypeAny>(
+  _in: TIn,
+  out: TOut,
+  def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+) =>
+  new _Pipe<TIn, TOut>({
+    ...mergeTypeDefRequiredParams(new DelegateConstraint(), {
+      description: out._def.description,
+      ...def,
+    }),
+    kind: 'pipe',
+    in: _in,
+    out,
+  });
+
+/**
+ * @internal
+ *
+ * Creates a type that maps input values using `fn` before parsing them
+ * using `type`
+ */
+export const createPreprocessType = <T extends TypeAny>(
+  fn: (value: unknown) => unknown,
+  type: T,
+  def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+) =>
+  createPipeType(
+    createTransformType(
+      createType({ constraint: new NoConstraint(), kind: 'mixed' }),
+      fn
+    ),
+    type,
+    def
+  ) as unknown as _Pipe<_AbstractType<unknown>, T>;
@@ -1,42 +1,110 @@
-import { createType } from './base';
 import {
-  createObjectReverseShape,
-  createPropMapFunc,
+  TypeAny,
+  createEnumType,
+  createFunctionType,
+  createLazyType,
+  createObjectType,
+  createPreprocessType,
+  createType,
+} from './base';
+import {
+  coerceBigInt,
   mergeTypeDefRequiredParams,
-  safeParse,
+  requiredTupleItems,
   safeParseReverse,
 } from './helpers';
 import {
   createParseArray,
+  createParseArrayAsync,
+  createParseDiscriminatedUnion,
+  createParseDiscriminatedUnionAsync,
   createParseMap,
-  createParseObject,
+  createParseMapAsync,
+  createParseRecord,
+  createParseRecordAsync,
   createParseSet,
+  createParseSetAsync,
+  createParseTuple,
+  createParseTupleAsync,
+  createParseUnion,
+  createParseUnionAsync,
 } from './parse-types';
 import {
   ArrayConstraint,
+  BigIntConstraint,
   BoolConstraint,
   DateContraint,
+  InstanceOfConstraint,
+  LiteralConstraint,
   MapConstraint,
   NoConstraint,
   NullConstraint,
   NullishConstraint,
   NumberConstraint,
-  ObjectConstraint,
+  RecordConstraint,
   SetConstraint,
   StrConstraint,
   SymbolConstraint,
+  TupleConstraint,
+  UnionConstraint,
 } from './type-constraints';
 import {
+  ArrayTypeDef,
+  ClassType,
+  CoerceInputType,
   ConstraintInterface,
+  DiscriminatedUnionTypeDef,
+  EmptyPropMapType,
+  EnumValueType,
+  InstanceOfTypeDef,
+  LazyTypeDef,
+  LiteralTypeDef,
+  LiteralValueType,
+  MapTypeDef,
+  ParseOptions,
   PartrialTypeDef,
+  PipeTypeDef,
+  PropMapType,
   RawShapeType,
+  RecordTypeDef,
+  TupleOutputType,
+  TupleTypeDef,
   TypeDef,
   TypeOf,
+  UnionTypeDef,
   UnknownType,
   _AbstractType,
+  _EnumType,
+  _FunctionType,
   _ObjectType,
 } from './types';
 
+/**
+ * Parses collection items using the item type reverse type
+ */
+const reverseParseFn = <T>(
+  _type: _AbstractType<T>,
+  value: unknown,
+  options?: ParseOptions
+) =>
+  safeParseReverse(
+    value,
+    _type as _AbstractType<UnknownType> & {
+      reverseType: _AbstractType<unknown>;
+    },
+    options
+  );
+
+/**
+ * @internal
+ *
+ * Returns the reverse type of the provided type, or the type itself if it
+ * does not provide a reverse type
+ */
+const reverseTypeOf = (_type: _AbstractType<UnknownType>) =>
+  ((_type as _AbstractType<UnknownType> & { reverseType?: TypeAny })
+    .reverseType ?? _type) as TypeAny;
+
 /**
  * BuiltType class provides developpers with factory methods for creating
  * compile time types that are used to parse value at runtime to prevents type errors
@@ -61,11 +129,15 @@ export class BuiltType {
    * console.log(email.parse('test-value')); // Will normally fail and throws error
    * ```
    */
-  static _str(
-    def?: PartrialTypeDef<StrConstraint>
-  ): _AbstractType<string, TypeDef<ConstraintInterface>> {
-    return createType<string>(
-      mergeTypeDefRequiredParams(
+  static _str<D extends PartrialTypeDef<StrConstraint>>(
+    def?: D
+  ): _AbstractType<
+    string,
+    TypeDef<ConstraintInterface>,
+    CoerceInputType<D, string>
+  > {
+    return createType<string>({
+      ...mergeTypeDefRequiredParams(
         new StrConstraint(),
         def,
         def?.coerce
@@ -74,8 +146,9 @@ export class BuiltType {
                 ? String(_value)
                 : _value
           : undefined
-      )
-    );
+      ),
+      kind: 'string',
+    });
   }
 
   /**
@@ -94,11 +167,15 @@ export class BuiltType {
    *
    * ```
    */
-  static _num(
-    def?: PartrialTypeDef<NumberConstraint>
-  ): _AbstractType<number, TypeDef<ConstraintInterface>> {
-    return createType<number>(
-      mergeTypeDefRequiredParams(
+  static _num<D extends PartrialTypeDef<NumberConstraint>>(
+    def?: D
+  ): _AbstractType<
+    number,
+    TypeDef<ConstraintInterface>,
+    CoerceInputType<D, number>
+  > {
+    return createType<number>({
+      ...mergeTypeDefRequiredParams(
         new NumberConstraint(),
         def,
         def?.coerce
@@ -107,8 +184,46 @@ export class BuiltType {
                 ? Number(_value)
                 : _value
           : undefined
-      )
-    );
+      ),
+      kind: 'number',
+    });
+  }
+
+  /**
+   * Creates javascript/typescript bigint based type instance. When coercing
+   * values, numeric strings and safe integers are converted to bigint values
+   * while fractional and non numeric values fail to parse.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const id = BuiltType._bigint({ coerce: true });
+   *
+   * id.parse('9007199254740993'); // 9007199254740993n
+   *
+   * // To apply constraint to parsed values:
+   *
+   * // Constrained type instance
+   * const amount = BuiltType._bigint({ constraint: (new BigIntConstraint).positive() });
+   *
+   * ```
+   */
+  static _bigint<D extends PartrialTypeDef<BigIntConstraint>>(
+    def?: D
+  ): _AbstractType<
+    bigint,
+    TypeDef<ConstraintInterface>,
+    CoerceInputType<D, bigint>
+  > {
+    return createType<bigint>({
+      ...mergeTypeDefRequiredParams(
+        new BigIntConstraint(),
+        def,
+        def?.coerce ? coerceBigInt : undefined
+      ),
+      kind: 'bigint',
+    });
   }
 
   /**
@@ -128,11 +243,15 @@ export class BuiltType {
    * ```
    *
    */
-  static _bool(
-    def?: PartrialTypeDef<BoolConstraint>
-  ): _AbstractType<boolean, TypeDef<ConstraintInterface>> {
-    return createType<boolean>(
-      mergeTypeDefRequiredParams(
+  static _bool<D extends PartrialTypeDef<BoolConstraint>>(
+    def?: D
+  ): _AbstractType<
+    boolean,
+    TypeDef<ConstraintInterface>,
+    CoerceInputType<D, boolean>
+  > {
+    return createType<boolean>({
+      ...mergeTypeDefRequiredParams(
         new BoolConstraint(),
         def,
         def?.coerce
@@ -141,8 +260,9 @@ export class BuiltType {
                 ? Boolean(_value)
                 : _value
           : undefined
-      )
-    );
+      ),
+      kind: 'boolean',
+    });
   }
 
   /**
@@ -165,16 +285,17 @@ export class BuiltType {
   static _symbol(
     def?: PartrialTypeDef<SymbolConstraint>
   ): _AbstractType<symbol, TypeDef<ConstraintInterface>> {
-    return createType<symbol>(
-      mergeTypeDefRequiredParams(
+    return createType<symbol>({
+      ...mergeTypeDefRequiredParams(
         new SymbolConstraint(),
         def,
         def?.coerce
           ? (v) =>
               typeof v !== 'undefined' && v !== null ? Symbol(v as string) : v
           : undefined
-      )
-    );
+      ),
+      kind: 'symbol',
+    });
   }
 
   /**
@@ -194,11 +315,15 @@ export class BuiltType {
    * ```
    *
    */
-  static _date(
-    def?: PartrialTypeDef<DateContraint>
-  ): _AbstractType<Date, TypeDef<ConstraintInterface>> {
-    return createType<Date>(
-      mergeTypeDefRequiredParams(
+  static _date<D extends PartrialTypeDef<DateContraint>>(
+    def?: D
+  ): _AbstractType<
+    Date,
+    TypeDef<ConstraintInterface>,
+    CoerceInputType<D, Date>
+  > {
+    return createType<Date>({
+      ...mergeTypeDefRequiredParams(
         new DateContraint(),
         def,
         def?.coerce
@@ -209,8 +334,9 @@ export class BuiltType {
                   : _value
                 : _value
           : undefined
-      )
-    );
+      ),
+      kind: 'date',
+    });
   }
 
   /**
@@ -230,25 +356,51 @@ export class BuiltType {
    * ```
    *
    */
-  static _array<T>(
-    t: _AbstractType<T>,
-    def?: PartrialTypeDef<ArrayConstraint>
-  ): _AbstractType<T[], TypeDef<ConstraintInterface>> {
-    return createType<T[]>(
-      mergeTypeDefRequiredParams(
-        new ArrayConstraint(),
-        def,
-        def?.coerce
-          ? (v) => {
-              return typeof v === 'undefined' || v === null
-                ? []
-                : Array.isArray(v)
-                  ? v
-                  : [v];
-            }
-          : undefined
-      ),
-      createParseArray(t)
+  static _array<
+    T,
+    TIn = T,
+    D extends
+      PartrialTypeDef<ArrayConstraint> = PartrialTypeDef<ArrayConstraint>,
+  >(
+    t: _AbstractType<T, UnknownType, TIn>,
+    def?: D
+  ): _AbstractType<
+    T[],
+    TypeDef<ConstraintInterface>,
+    CoerceInputType<D, TIn[]>
+  > {
+    const _t = t as _AbstractType<T, UnknownType, UnknownType>;
+    return createType<T[], ArrayTypeDef<TypeAny>>(
+      {
+        ...mergeTypeDefRequiredParams(
+          new ArrayConstraint(),
+          def,
+          def?.coerce
+            ? (v) => {
+                return typeof v === 'undefined' || v === null
+                  ? []
+                  : Array.isArray(v)
+                    ? v
+                    : [v];
+              }
+            : undefined
+        ),
+        kind: 'array',
+        item: _t as TypeAny,
+      },
+      createParseArray(_t),
+      () =>
+        createType<UnknownType, ArrayTypeDef<TypeAny>>(
+          {
+            ...mergeTypeDefRequiredParams(new ArrayConstraint(), {
+              description: def?.description,
+            }),
+            kind: 'array',
+            item: reverseTypeOf(_t),
+          },
+          createParseArray(_t, reverseParseFn)
+        ),
+      createParseArrayAsync(_t)
     );
   }
 
@@ -264,7 +416,7 @@ export class BuiltType {
    * ```
    */
   static _null() {
-    return createType<null>({ constraint: new NullConstraint() });
+    return createType<null>({ constraint: new NullConstraint(), kind: 'null' });
   }
 
   /**
@@ -281,6 +433,7 @@ export class BuiltType {
   static _undefined() {
     return createType<undefined | null>({
       constraint: new NullishConstraint(),
+      kind: 'undefined',
     });
   }
 
@@ -300,26 +453,85 @@ export class BuiltType {
    * ```
    */
   static _map<TKey, TValue>(
-    tKey: _AbstractType<TKey>,
-    tValue: _AbstractType<TValue>,
+    tKey: _AbstractType<TKey, UnknownType, UnknownType>,
+    tValue: _AbstractType<TValue, UnknownType, UnknownType>,
     def?: PartrialTypeDef<MapConstraint>
   ): _AbstractType<
     Map<TKey, TValue>,
     TypeDef<ConstraintInterface>,
     Iterable<TValue>
   > {
-    return createType<Map<TKey, TValue>>(
-      mergeTypeDefRequiredParams(
-        new MapConstraint(),
-        def,
-        def?.coerce
-          ? (v) =>
-              typeof v !== 'undefined' && v !== null
-                ? new Map(v as Iterable<UnknownType>)
-                : v
-          : undefined
-      ),
-      createParseMap(tKey, tValue)
+    return createType<Map<TKey, TValue>, MapTypeDef<TypeAny, TypeAny>>(
+      {
+        ...mergeTypeDefRequiredParams(
+          new MapConstraint(),
+          def,
+          def?.coerce
+            ? (v) =>
+                typeof v !== 'undefined' && v !== null
+                  ? new Map(v as Iterable<UnknownType>)
+                  : v
+            : undefined
+        ),
+        kind: 'map',
+        key: tKey as TypeAny,
+        value: tValue as TypeAny,
+      },
+      createParseMap(tKey, tValue),
+      () =>
+        createType<UnknownType, MapTypeDef<TypeAny, TypeAny>>(
+          {
+            ...mergeTypeDefRequiredParams(new MapConstraint(), {
+              description: def?.description,
+            }),
+            kind: 'map',
+            key: reverseTypeOf(tKey),
+            value: reverseTypeOf(tValue),
+          },
+          createParseMap(tKey, tValue, reverseParseFn)
+        ),
+      createParseMapAsync(tKey, tValue)
+    );
+  }
+
+  /**
+   * Creates a type instance that parses plain javascript objects used as
+   * dictionaries into a Record<TKey, TValue>.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const value = BuiltType._record(BuiltType._enum(['fr', 'en']), BuiltType._str());
+   *
+   * const result = value.parse({ fr: 'Bonjour', en: 'Hello' });
+   *
+   * result.fr; // 'Bonjour'
+   * ```
+   */
+  static _record<TKey extends string, TValue>(
+    tKey: _AbstractType<TKey, UnknownType, UnknownType>,
+    tValue: _AbstractType<TValue, UnknownType, UnknownType>,
+    def?: Omit<PartrialTypeDef<RecordConstraint>, 'coerce'>
+  ): _AbstractType<
+    Record<TKey, TValue>,
+    RecordTypeDef<typeof tKey, typeof tValue>,
+    Record<string, unknown>
+  > {
+    return createType<
+      Record<TKey, TValue>,
+      RecordTypeDef<typeof tKey, typeof tValue>,
+      Record<string, unknown>
+    >(
+      {
+        ...mergeTypeDefRequiredParams(new RecordConstraint(), def),
+        kind: 'record',
+        key: tKey,
+        value: tValue,
+      },
+      createParseRecord(tKey, tValue),
+      undefined,
+      createParseRecordAsync(tKey, tValue)
     );
   }
 
@@ -341,25 +553,41 @@ export class BuiltType {
    *
    */
   static _set<TValue>(
-    t: _AbstractType<TValue>,
+    t: _AbstractType<TValue, UnknownType, UnknownType>,
     def?: PartrialTypeDef<SetConstraint>
   ): _AbstractType<
     Set<TValue>,
     TypeDef<ConstraintInterface>,
     Iterable<TValue>
   > {
-    return createType<Set<TValue>>(
-      mergeTypeDefRequiredParams(
-        new SetConstraint(),
-        def,
-        def?.coerce
-          ? (v) =>
-              typeof v !== 'undefined' && v !== null
-                ? new Set(v as Iterable<UnknownType>)
-                : v
-          : undefined
-      ),
-      createParseSet(t)
+    return createType<Set<TValue>, ArrayTypeDef<TypeAny>>(
+      {
+        ...mergeTypeDefRequiredParams(
+          new SetConstraint(),
+          def,
+          def?.coerce
+            ? (v) =>
+                typeof v !== 'undefined' && v !== null
+                  ? new Set(v as Iterable<UnknownType>)
+                  : v
+            : undefined
+        ),
+        kind: 'set',
+        item: t as TypeAny,
+      },
+      createParseSet(t),
+      () =>
+        createType<UnknownType, ArrayTypeDef<TypeAny>>(
+          {
+            ...mergeTypeDefRequiredParams(new SetConstraint(), {
+              description: def?.description,
+            }),
+            kind: 'set',
+            item: reverseTypeOf(t),
+          },
+          createParseSet(t, reverseParseFn)
+        ),
+      createParseSetAsync(t)
     );
   }
 
@@ -378,7 +606,10 @@ export class BuiltType {
    *
    */
   static _mixed() {
-    return createType<UnknownType>({ constraint: new NoConstraint() });
+    return createType<UnknownType>({
+      constraint: new NoConstraint(),
+      kind: 'mixed',
+    });
   }
 
   /**
@@ -426,43 +657,352 @@ export class BuiltType {
    * ```
    *
    */
-  static _object<T extends RawShapeType>(
+  static _object<
+    T extends RawShapeType,
+    const P extends PropMapType<T> = EmptyPropMapType,
+  >(
     dict: T,
-    propMap: Partial<{ [k in keyof T]: string }> = {},
+    propMap: P = {} as P,
     def?: Omit<PartrialTypeDef, 'coerce'>
-  ) {
-    return createType(
-      mergeTypeDefRequiredParams(new ObjectConstraint(), def),
-      createParseObject<{
-        [Prop in keyof T]: TypeOf<T[Prop]>;
-      }>(createPropMapFunc(dict, propMap), (_type, value) =>
-        safeParse(value, _type)
-      ),
-      // Provide an object reverse type factory function
-      // which is internally invoked if developper request for a reverseType instance
-      () => {
-        const [_shape, _propMap, _def] = createObjectReverseShape(
-          dict,
-          propMap,
-          def
-        );
-        return createType(
-          _def,
-          createParseObject(
-            createPropMapFunc(
-              _shape,
-              _propMap as Partial<Record<keyof typeof _shape, string>>
-            ),
-            (_type, value) =>
-              safeParseReverse(
-                value,
-                _type as _AbstractType<UnknownType> & {
-                  reverseType: _AbstractType<unknown>;
-                }
-              )
-          )
+  ): _ObjectType<T, P> {
+    return createObjectType(dict, propMap, def);
+  }
+
+  /**
+   * Creates a union type instance. Union types parse values using the first
+   * member type that successfully parses the value.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const value = BuiltType._union([BuiltType._str(), BuiltType._num()]);
+   *
+   * value.parse('1'); // '1'
+   * value.parse(1); // 1
+   * value.parse(true); // throws a ParseError with each union member errors
+   * ```
+   *
+   */
+  static _union<T extends readonly [TypeAny, ...TypeAny[]]>(
+    options: T,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _AbstractType<TypeOf<T[number]>, UnionTypeDef<T>> {
+    return createType<TypeOf<T[number]>, UnionTypeDef<T>>(
+      {
+        ...mergeTypeDefRequiredParams(new UnionConstraint(options), def),
+        kind: 'union',
+        options,
+      },
+      createParseUnion(options),
+      undefined,
+      createParseUnionAsync(options)
+    );
+  }
+
+  /**
+   * Creates a discriminated union type instance. Discriminated union types
+   * select the object member used to parse the value, using the member
+   * `discriminator` property type.
+   *
+   *
+   * ```ts
+   * import { BuiltType, StrConstraint } from '@azlabsjs/built-type';
+   *
+   * const value = BuiltType._discriminatedUnion('kind', [
+   *    BuiltType._object({
+   *      kind: BuiltType._str({ constraint: new StrConstraint().pattern(/^card$/) }),
+   *      pan: BuiltType._str()
+   *    }),
+   *    BuiltType._object({
+   *      kind: BuiltType._str({ constraint: new StrConstraint().pattern(/^bank$/) }),
+   *      iban: BuiltType._str()
+   *    }),
+   * ]);
+   *
+   * value.parse({ kind: 'bank', iban: 'FR7630006000011234567890189' });
+   * ```
+   *
+   */
+  static _discriminatedUnion<
+    K extends string,
+    T extends readonly [
+      _ObjectType<RawShapeType & { [k in K]: TypeAny }>,
+      ..._ObjectType<RawShapeType & { [k in K]: TypeAny }>[],
+    ],
+  >(
+    discriminator: K,
+    options: T,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _AbstractType<TypeOf<T[number]>, DiscriminatedUnionTypeDef<K, T>> {
+    options.forEach((option, index) => {
+      if (!(discriminator in option._def.shape)) {
+        throw new Error(
+          `Union member at index ${index} does not define the discriminator property ${discriminator}`
         );
       }
-    ) as unknown as _ObjectType<T>;
+    });
+    return createType<TypeOf<T[number]>, DiscriminatedUnionTypeDef<K, T>>(
+      {
+        ...mergeTypeDefRequiredParams(new UnionConstraint(options), def),
+        kind: 'discriminatedUnion',
+        options,
+        discriminator,
+      },
+      createParseDiscriminatedUnion(discriminator, options),
+      undefined,
+      createParseDiscriminatedUnionAsync(discriminator, options)
+    );
+  }
+
+  /**
+   * Creates a literal type instance. Literal types only parse values that
+   * are equal to the provided value.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const value = BuiltType._literal('draft');
+   *
+   * value.parse('draft'); // 'draft'
+   * value.parse('published'); // throws a ParseError
+   * ```
+   *
+   */
+  static _literal<const T extends LiteralValueType>(
+    value: T,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _AbstractType<T, LiteralTypeDef<T>> {
+    return createType<T, LiteralTypeDef<T>>({
+      ...mergeTypeDefRequiredParams(new LiteralConstraint(value), def),
+      kind: 'literal',
+      value,
+    });
+  }
+
+  /**
+   * Creates an enum type instance from a list of values.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const status = BuiltType._enum(['draft', 'published'] as const);
+   *
+   * status.parse('draft'); // 'draft'
+   * status.parse('archived'); // throws a ParseError
+   *
+   * // Sub-enums can be derived from the enum type
+   * const draft = status.extract(['draft']);
+   * ```
+   *
+   */
+  static _enum<const T extends readonly [EnumValueType, ...EnumValueType[]]>(
+    values: T,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _EnumType<T[number]> {
+    return createEnumType(
+      Object.fromEntries(values.map((v) => [v, v])) as Record<
+        string,
+        T[number]
+      >,
+      def
+    );
+  }
+
+  /**
+   * Creates an enum type instance from a typescript enum object.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * enum Status {
+   *    Draft = 'draft',
+   *    Published = 'published',
+   * }
+   *
+   * const status = BuiltType._nativeEnum(Status);
+   *
+   * status.parse('draft'); // Status.Draft
+   * ```
+   *
+   */
+  static _nativeEnum<T extends Record<string, EnumValueType>>(
+    value: T,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _EnumType<T[keyof T]> {
+    // Numeric typescript enums define a reverse mapping from values to keys,
+    // which must not be considered as enum entries
+    return createEnumType(
+      Object.fromEntries(
+        Object.keys(value)
+          .filter((k) => typeof value[value[k]] !== 'number')
+          .map((k) => [k, value[k]])
+      ) as Record<string, T[keyof T]>,
+      def
+    );
+  }
+
+  /**
+   * Creates a tuple type instance. Tuple items are parsed using the type
+   * at the item position, and items after the last positional type are
+   * parsed using the `rest` type if provided.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const coordinates = BuiltType._tuple([BuiltType._num(), BuiltType._num()]);
+   *
+   * coordinates.parse([6.13365, 1.22311]); // [6.13365, 1.22311]
+   *
+   * // Tuple with a rest element
+   * const value = BuiltType._tuple([BuiltType._str(), BuiltType._num()], BuiltType._bool());
+   *
+   * value.parse(['lat', 6.13365, true, false]); // [string, number, ...boolean[]]
+   * ```
+   *
+   */
+  static _tuple<
+    T extends readonly [] | readonly [TypeAny, ...TypeAny[]],
+    R extends TypeAny | undefined = undefined,
+  >(
+    items: T,
+    rest?: R,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _AbstractType<TupleOutputType<T, R>, TupleTypeDef<T, R>> {
+    return createType<TupleOutputType<T, R>, TupleTypeDef<T, R>>(
+      {
+        ...mergeTypeDefRequiredParams(
+          new TupleConstraint(
+            items.length,
+            typeof rest !== 'undefined',
+            requiredTupleItems(items)
+          ),
+          def
+        ),
+        kind: 'tuple',
+        items,
+        rest,
+      },
+      createParseTuple<TupleOutputType<T, R>>(items, rest),
+      undefined,
+      createParseTupleAsync<TupleOutputType<T, R>>(items, rest)
+    );
+  }
+
+  /**
+   * Creates a lazy type instance. The type returned by the `getter` function is
+   * resolved on first parse, which allows developpers to create recursive types.
+   *
+   *
+   * ```ts
+   * import { AbstractType, BuiltType } from '@azlabsjs/built-type';
+   *
+   * type Comment = { text: string; replies: Comment[] };
+   *
+   * const comment: AbstractType<Comment> = BuiltType._object({
+   *    text: BuiltType._str(),
+   *    replies: BuiltType._array(BuiltType._lazy(() => comment)),
+   * });
+   * ```
+   *
+   */
+  static _lazy<T extends TypeAny>(
+    getter: () => T,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _AbstractType<TypeOf<T>, LazyTypeDef<T>, T['_input']> {
+    return createLazyType(getter, def);
+  }
+
+  /**
+   * Creates a class instance type instance. Instance types parse values
+   * which prototype chain contains the `ctor` prototype.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const url = BuiltType._instanceOf(URL);
+   *
+   * url.parse(new URL('https://example.com')); // URL
+   * url.safeParse('https://example.com').success; // false
+   *
+   * // Instance types support nil values as any other type
+   * const error = BuiltType._instanceOf(Error).nullish();
+   * ```
+   *
+   */
+  static _instanceOf<T extends ClassType>(
+    ctor: T,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _AbstractType<InstanceType<T>, InstanceOfTypeDef<T>> {
+    return createType<InstanceType<T>, InstanceOfTypeDef<T>>({
+      ...mergeTypeDefRequiredParams(new InstanceOfConstraint(ctor), def),
+      kind: 'instanceOf',
+      ctor,
+    });
+  }
+
+  /**
+   * Creates a type instance that maps input values using `fn` before
+   * parsing them using `type`. Preprocess types are used to normalize
+   * input values.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const tags = BuiltType._preprocess(
+   *    (value) => (typeof value === 'string' ? value.split(',') : value),
+   *    BuiltType._array(BuiltType._str())
+   * );
+   *
+   * tags.parse('a,b'); // ['a', 'b']
+   * ```
+   *
+   */
+  static _preprocess<T extends TypeAny>(
+    fn: (value: unknown) => unknown,
+    type: T,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _AbstractType<TypeOf<T>, PipeTypeDef<TypeAny, T>, unknown> {
+    return createPreprocessType(fn, type, def);
+  }
+
+  /**
+   * Creates a function type instance. Parsed functions are wrapped in functions
+   * that parse their arguments using the `args` tuple type and their return value,
+   * or the resolved value of returned promises, using the `returns` type.
+   *
+   *
+   * ```ts
+   * import { BuiltType } from '@azlabsjs/built-type';
+   *
+   * const callback = BuiltType._function(
+   *    BuiltType._tuple([BuiltType._str(), BuiltType._num()]),
+   *    BuiltType._bool()
+   * );
+   *
+   * const fn = callback.parse((name: string, age: number) => age > 18);
+   * fn('John', 28); // true
+   * fn('John', '28'); // throws `ParseError`
+   *
+   * // `implement` infers `name` and `age` parameters types
+   * const isAdult = callback.implement((name, age) => age > 18);
+   * ```
+   *
+   */
+  static _function<
+    TArgs extends _AbstractType<UnknownType[], UnknownType, UnknownType>,
+    TReturn extends TypeAny,
+  >(
+    args: TArgs,
+    returns: TReturn,
+    def?: Omit<PartrialTypeDef, 'coerce' | 'constraint'>
+  ): _FunctionType<TArgs, TReturn> {
+    return createFunctionType(args, returns, def);
   }
 }
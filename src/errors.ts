@@ -1,11 +1,168 @@
+import { flatten, format } from './issues';
+import { Issue, UnknownType } from './types';
+
 /**
- * Typescript or javascript error object that is thrown on parse failure
+ * @internal
+ *
+ * Registered symbol used to brand parse errors, so that errors thrown by
+ * another copy of the library are recognized by `isParseError()`
  */
-export class ParseError<TError> extends Error {
+const PARSE_ERROR_BRAND = Symbol.for('@azlabsjs/built-type/ParseError');
+
+/**
+ * @type
+ *
+ * Serialized parse error, as returned by `toJSON()`
+ */
+export type ParseErrorJSONType = {
+  name: 'ParseError';
+  summary: string;
+  message: string;
+  issues: Issue[];
+};
+
+/** @internal */
+function createMessage(summary: string, issues: Issue[]) {
+  return [
+    summary,
+    ...issues.map((issue) =>
+      issue.path.length === 0
+        ? `  - ${issue.message}`
+        : `  - ${issue.path.join('.')}: ${issue.message}`
+    ),
+  ].join('\n');
+}
+
+/**
+ * @internal
+ *
+ * Convert values that are not supported by `JSON.stringify()`, like bigint
+ * values, to JSON compatible values
+ */
+function toJSONValue(value: UnknownType): UnknownType {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJSONValue);
+  }
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, toJSONValue(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Typescript or javascript error object that is thrown on parse failure.
+ * Its message lists the parse issues with their path:
+ *
+ * ```
+ * Failed parsing user input
+ *   - address.city: Value must be of type string, number given
+ *   - Unrecognized keys: role
+ * ```
+ */
+export class ParseError<TError extends Issue = Issue> extends Error {
+  readonly name = 'ParseError';
+
   get errors() {
     return this._errors;
   }
-  constructor(private readonly _errors: TError, message?: string) {
-    super(message);
+
+  /**
+   * Returns the issues reported by the failed parse operation
+   */
+  get issues() {
+    return this._errors;
+  }
+
+  /**
+   * Returns the first line of the error message
+   */
+  get summary() {
+    return this._summary;
+  }
+
+  constructor(
+    private readonly _errors: TError[],
+    private readonly _summary: string = 'Failed parsing input'
+  ) {
+    super(createMessage(_summary, _errors));
+    // Restore the prototype chain, which is lost when extending built-in
+    // classes and compiling to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    Object.defineProperty(this, PARSE_ERROR_BRAND, { value: true });
+  }
+
+  /**
+   * Creates a parse error from its serialized value
+   *
+   * ```ts
+   * const error = ParseError.fromJSON(await response.json());
+   * ```
+   */
+  static fromJSON(value: string | Omit<ParseErrorJSONType, 'message'>) {
+    const { issues, summary } =
+      typeof value === 'string'
+        ? (JSON.parse(value) as ParseErrorJSONType)
+        : value;
+    return new ParseError(issues, summary);
+  }
+
+  /**
+   * Returns the parse issues messages keyed by the issues path
+   */
+  flatten() {
+    return flatten(this._errors);
   }
+
+  /**
+   * Returns the parse issues messages as a nested tree matching the
+   * parsed value shape
+   */
+  format() {
+    return format(this._errors);
+  }
+
+  /**
+   * Returns a JSON compatible representation of the error, that can be
+   * transported and restored using `ParseError.fromJSON()`
+   */
+  toJSON(): ParseErrorJSONType {
+    return {
+      name: this.name,
+      summary: this._summary,
+      message: this.message,
+      issues: toJSONValue(this._errors),
+    };
+  }
+}
+
+/**
+ * Checks if the provided value is a parse error. Unlike `instanceof`, it
+ * recognizes parse errors created by other copies of the library.
+ *
+ * ```ts
+ * try {
+ *    user.parse(value);
+ * } catch (error) {
+ *    if (isParseError(error)) {
+ *      console.log(error.issues);
+ *    }
+ * }
+ * ```
+ */
+export function isParseError(value: unknown): value is ParseError {
+  return (
+    value instanceof ParseError ||
+    (typeof value === 'object' &&
+      value !== null &&
+      (value as { [PARSE_ERROR_BRAND]?: boolean })[PARSE_ERROR_BRAND] === true)
+  );
 }
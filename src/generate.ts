@@ -0,0 +1,561 @@
+import { TypeAny } from './base';
+import {
+  ArrayTypeDef,
+  ConstraintRuleType,
+  EnumTypeDef,
+  FunctionTypeDef,
+  LazyTypeDef,
+  LiteralTypeDef,
+  LiteralValueType,
+  MapTypeDef,
+  ObjectTypeDef,
+  PipeTypeDef,
+  TransformTypeDef,
+  TupleTypeDef,
+  TypeDef,
+  UnionTypeDef,
+  UnknownType,
+} from './types';
+
+/**
+ * @type
+ *
+ * Options used when generating values from built types
+ */
+export type GenerateOptionsType = {
+  /**
+   * Seed of the random values generator. Values generated using the same
+   * seed are identical. Defaults to `1`
+   */
+  seed?: number | string;
+};
+
+/** @internal */
+type GenerateContextType = {
+  random: () => number;
+  depth: number;
+};
+
+/** @internal */
+type RangeType = { min: number; max: number; int: boolean };
+
+/**
+ * @internal
+ *
+ * Probability of generating null or undefined values for types that
+ * accept them
+ */
+const NIL_PROBABILITY = 0.2;
+
+/**
+ * @internal
+ *
+ * Depth of lazy types from which collections are generated with their
+ * minimum size and nil values are preferred, so that recursive types end
+ */
+const MAX_DEPTH = 3;
+
+/**
+ * @internal
+ *
+ * Number of attempts made to generate a value satisfying custom rules
+ */
+const MAX_ATTEMPTS = 50;
+
+/** @internal */
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+/** @internal */
+const DEFAULT_DATE_RANGE = [
+  Date.UTC(2000, 0, 1),
+  Date.UTC(2030, 11, 31),
+] as const;
+
+/**
+ * @internal
+ *
+ * Creates a mulberry32 pseudo random numbers generator. String seeds are
+ * hashed using FNV-1a.
+ */
+function createRandom(seed: number | string) {
+  let state =
+    typeof seed === 'number'
+      ? seed >>> 0
+      : Array.from(seed).reduce(
+          (hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619) >>> 0,
+          2166136261
+        );
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** @internal */
+function location(pointer: (string | number)[]) {
+  return `#/${pointer.join('/')}`;
+}
+
+/** @internal */
+function integer(ctx: GenerateContextType, min: number, max: number) {
+  return min + Math.floor(ctx.random() * (max - min + 1));
+}
+
+/** @internal */
+function pick<T>(ctx: GenerateContextType, values: ArrayLike<T>) {
+  return values[integer(ctx, 0, values.length - 1)];
+}
+
+/** @internal */
+function chars(ctx: GenerateContextType, alphabet: string, length: number) {
+  return Array.from({ length }, () => pick(ctx, alphabet)).join('');
+}
+
+/** @internal */
+function rulesOf(_type: TypeAny): ConstraintRuleType[] {
+  return (_type._def as TypeDef).constraint?.rules ?? [];
+}
+
+/**
+ * @internal
+ *
+ * Returns the size bounds of strings and collections set by constraint rules
+ */
+function sizeBounds(rules: ConstraintRuleType[]) {
+  let [min, max] = [0, Infinity];
+  for (const { code, params } of rules) {
+    if (code === 'too_small') {
+      min = Math.max(min, params?.minimum);
+    } else if (code === 'too_big') {
+      max = Math.min(max, params?.maximum);
+    } else if (code === 'invalid_length') {
+      [min, max] = [params?.length, params?.length];
+    }
+  }
+  return [min, max];
+}
+
+/**
+ * @internal
+ *
+ * Returns the size range of generated strings and collections. The size of
+ * collections of nested lazy types is kept to its minimum.
+ */
+function sizeRange(
+  ctx: GenerateContextType,
+  rules: ConstraintRuleType[],
+  defaults: [number, number]
+) {
+  const [min, max] = sizeBounds(rules);
+  if (ctx.depth > MAX_DEPTH) {
+    return [min, min];
+  }
+  return [
+    Math.max(min, Math.min(defaults[0], max)),
+    Math.min(max, Math.max(defaults[1], min)),
+  ];
+}
+
+/**
+ * @internal
+ *
+ * Returns the number range of number constraint rules. Exclusive bounds are
+ * moved by the smallest step used by generated values.
+ */
+function numberRange(rules: ConstraintRuleType[], bigint = false): RangeType {
+  const int = bigint || rules.some(({ code }) => code === 'not_integer');
+  const step = int ? 1 : 0.01;
+  let [min, max] = [-Infinity, Infinity];
+  for (const { code, params } of rules) {
+    if (code === 'too_small' || code === 'not_in_range') {
+      min = Math.max(
+        min,
+        Number(params?.minimum) + (params?.exclusive ? step : 0)
+      );
+    }
+    if (code === 'too_big' || code === 'not_in_range') {
+      max = Math.min(
+        max,
+        Number(params?.maximum) - (params?.exclusive ? step : 0)
+      );
+    }
+  }
+  if (min === -Infinity && max === Infinity) {
+    [min, max] = [0, 1000];
+  } else if (min === -Infinity) {
+    min = max - 1000;
+  } else if (max === Infinity) {
+    max = min + 1000;
+  }
+  return int
+    ? { min: Math.ceil(min), max: Math.floor(max), int }
+    : { min, max, int };
+}
+
+/** @internal */
+function generateNumber(ctx: GenerateContextType, _type: TypeAny) {
+  const rules = rulesOf(_type);
+  const { min, max, int } = numberRange(rules);
+  if (int) {
+    return integer(ctx, min, max);
+  }
+  // rounding might move values of narrow ranges out of the range
+  const value = Math.min(
+    max,
+    Math.max(min, Math.round((min + ctx.random() * (max - min)) * 100) / 100)
+  );
+  // float rules reject integer values
+  return rules.some(({ code }) => code === 'not_float') &&
+    Number.isInteger(value)
+    ? value + (value + 0.5 <= max ? 0.5 : -0.5)
+    : value;
+}
+
+/** @internal */
+function generateBigInt(ctx: GenerateContextType, _type: TypeAny) {
+  const rules = rulesOf(_type);
+  const { min, max } = numberRange(rules, true);
+  const divisor = rules.find(({ code }) => code === 'not_multiple_of')?.params
+    ?.multipleOf as bigint | undefined;
+  const value = BigInt(integer(ctx, min, max));
+  if (!divisor) {
+    return value;
+  }
+  // rounds the value up to the next multiple of the divisor, or down when the
+  // next multiple is out of range
+  const remainder = ((value % divisor) + divisor) % divisor;
+  return remainder === BigInt(0)
+    ? value
+    : value + divisor - remainder <= BigInt(max)
+      ? value + divisor - remainder
+      : value - remainder;
+}
+
+/** @internal */
+function generateDate(ctx: GenerateContextType, _type: TypeAny) {
+  let min: number | undefined;
+  let max: number | undefined;
+  for (const { code, params } of rulesOf(_type)) {
+    if (code === 'too_small') {
+      min = new Date(params?.minimum).getTime();
+    } else if (code === 'too_big') {
+      max = new Date(params?.maximum).getTime();
+    }
+  }
+  // a missing bound is derived from the other bound when the latter is out
+  // of the default range, so that generated dates still vary
+  const [_min, _max] = DEFAULT_DATE_RANGE;
+  const span = _max - _min;
+  min = min ?? (typeof max === 'number' && max < _min ? max - span : _min);
+  max = max ?? (min > _max ? min + span : _max);
+  return new Date(integer(ctx, min, Math.max(min, max)));
+}
+
+/**
+ * @internal
+ *
+ * Generators of the strings matched by known `Patterns`
+ */
+function patternCandidates(ctx: GenerateContextType): (() => string)[] {
+  const hex = '0123456789abcdef';
+  const datetime = (precision: number, offset: boolean) => {
+    const iso = new Date(
+      integer(ctx, DEFAULT_DATE_RANGE[0], DEFAULT_DATE_RANGE[1])
+    ).toISOString();
+    const fraction = chars(ctx, '0123456789', precision);
+    return `${iso.slice(0, 19)}${precision ? `.${fraction}` : ''}${offset ? '+01:00' : 'Z'}`;
+  };
+  // the email candidate comes first, as the email pattern takes long to
+  // reject strings without `@`
+  return [
+    () =>
+      `${chars(ctx, LETTERS, 6)}.${chars(ctx, LETTERS, 6)}@${chars(ctx, LETTERS, 8)}.com`,
+    () =>
+      `${chars(ctx, hex, 8)}-${chars(ctx, hex, 4)}-4${chars(ctx, hex, 3)}-${pick(ctx, '89ab')}${chars(ctx, hex, 3)}-${chars(ctx, hex, 12)}`,
+    () => `c${chars(ctx, `${LETTERS}0123456789`, 24)}`,
+    ...[3, 0, 1, 2, 4, 5, 6, 7, 8, 9].flatMap((precision) => [
+      () => datetime(precision, false),
+      () => datetime(precision, true),
+    ]),
+  ];
+}
+
+/** @internal */
+function generateString(
+  ctx: GenerateContextType,
+  _type: TypeAny,
+  pointer: (string | number)[]
+) {
+  const rules = rulesOf(_type);
+  const needle = (validation: string) =>
+    (rules.find(({ params }) => params?.validation === validation)?.params
+      ?.needle as string | undefined) ?? '';
+  const [prefix, suffix] = [needle('starts_with'), needle('ends_with')];
+  const [min, max] = sizeRange(ctx, rules, [5, 12]);
+  const affixes = prefix.length + suffix.length;
+  const length = integer(ctx, Math.max(min, affixes), Math.max(max, affixes));
+  const value = `${prefix}${chars(ctx, LETTERS, length - affixes)}${suffix}`;
+  const patterns = rules
+    .filter(({ params }) => params?.validation === 'pattern')
+    .map(({ params }) => new RegExp(params?.pattern, params?.flags));
+  if (patterns.length === 0) {
+    return value;
+  }
+  const [lower, upper] = sizeBounds(rules);
+  // strings matching known `Patterns` are tried before the generated string
+  for (const candidate of [...patternCandidates(ctx), () => value]) {
+    const result = candidate();
+    if (
+      patterns.every((pattern) => pattern.test(result)) &&
+      result.length >= lower &&
+      result.length <= upper &&
+      result.startsWith(prefix) &&
+      result.endsWith(suffix)
+    ) {
+      return result;
+    }
+  }
+  throw new Error(
+    `Cannot generate a string matching ${patterns.map(String).join(', ')}, at ${location(pointer)}`
+  );
+}
+
+/** @internal */
+function generateObject(
+  ctx: GenerateContextType,
+  def: ObjectTypeDef,
+  pointer: (string | number)[]
+) {
+  const value: Record<string, UnknownType> = {};
+  for (const key in def.shape) {
+    const _type = def.shape[key] as TypeAny;
+    // optional properties are omitted like other nil values
+    if (
+      (_type._def as TypeDef).constraint.acceptsUndefined &&
+      (ctx.depth > MAX_DEPTH || ctx.random() < NIL_PROBABILITY)
+    ) {
+      continue;
+    }
+    // input keys containing `.` are read from nested input objects
+    const segments = (
+      (def.propMap as Record<string, string>)[key] ?? key
+    ).split('.');
+    let node = value;
+    for (const segment of segments.slice(0, -1)) {
+      node[segment] = node[segment] ?? {};
+      node = node[segment];
+    }
+    node[segments[segments.length - 1]] = generateValue(ctx, _type, [
+      ...pointer,
+      key,
+    ]);
+  }
+  return value;
+}
+
+/** @internal */
+function generateEntries(
+  ctx: GenerateContextType,
+  _type: TypeAny,
+  pointer: (string | number)[]
+) {
+  const { key, value } = _type._def as MapTypeDef<TypeAny, TypeAny>;
+  const [min, max] = sizeRange(ctx, rulesOf(_type), [1, 3]);
+  return Array.from({ length: integer(ctx, min, max) }, (_, i) => [
+    generateValue(ctx, key, [...pointer, i, 0]),
+    generateValue(ctx, value, [...pointer, i, 1]),
+  ]);
+}
+
+/** @internal */
+function generateKind(
+  ctx: GenerateContextType,
+  _type: TypeAny,
+  pointer: (string | number)[]
+): UnknownType {
+  const def = _type._def as TypeDef;
+  switch (def.kind) {
+    case 'string':
+      return generateString(ctx, _type, pointer);
+    case 'number':
+      return generateNumber(ctx, _type);
+    case 'bigint':
+      return generateBigInt(ctx, _type);
+    case 'boolean':
+      return ctx.random() < 0.5;
+    case 'symbol':
+      return Symbol(chars(ctx, LETTERS, 6));
+    case 'date':
+      return generateDate(ctx, _type);
+    case 'null':
+      return null;
+    case 'undefined':
+      return undefined;
+    case 'mixed':
+      return chars(ctx, LETTERS, 8);
+    case 'array':
+    case 'set': {
+      const { item } = def as ArrayTypeDef<TypeAny>;
+      const [min, max] = sizeRange(ctx, rulesOf(_type), [1, 3]);
+      const length = integer(ctx, min, max);
+      if (def.kind === 'array') {
+        return Array.from({ length }, (_, i) =>
+          generateValue(ctx, item, [...pointer, i])
+        );
+      }
+      // duplicated set items are generated again, so that sets reach their size
+      const items = new Set<UnknownType>();
+      for (let i = 0; items.size < length && i < length * MAX_ATTEMPTS; i++) {
+        items.add(generateValue(ctx, item, [...pointer, items.size]));
+      }
+      return items;
+    }
+    case 'tuple': {
+      const { items, rest } = def as TupleTypeDef<TypeAny[], TypeAny>;
+      const length = rest && ctx.depth <= MAX_DEPTH ? integer(ctx, 0, 2) : 0;
+      return [
+        ...items.map((item, i) => generateValue(ctx, item, [...pointer, i])),
+        ...Array.from({ length }, (_, i) =>
+          generateValue(ctx, rest as TypeAny, [...pointer, items.length + i])
+        ),
+      ];
+    }
+    case 'map':
+      return new Map(
+        generateEntries(ctx, _type, pointer) as [unknown, unknown][]
+      );
+    case 'record':
+      return Object.fromEntries(generateEntries(ctx, _type, pointer));
+    case 'object':
+      return generateObject(ctx, def as ObjectTypeDef, pointer);
+    case 'union':
+    case 'discriminatedUnion':
+      return generateValue(
+        ctx,
+        pick(ctx, (def as UnionTypeDef<TypeAny[]>).options),
+        pointer
+      );
+    case 'literal':
+      return (def as LiteralTypeDef<LiteralValueType>).value;
+    case 'enum':
+      return pick(ctx, (def as EnumTypeDef<string | number>).values);
+    case 'function': {
+      const returns = generateValue(
+        ctx,
+        (def as FunctionTypeDef<TypeAny, TypeAny>).returns,
+        [...pointer, 'returns']
+      );
+      return () => returns;
+    }
+    case 'lazy': {
+      ctx.depth += 1;
+      try {
+        return generateValue(
+          ctx,
+          (def as LazyTypeDef<TypeAny>).getter(),
+          pointer
+        );
+      } finally {
+        ctx.depth -= 1;
+      }
+    }
+    case 'transform':
+      return generateValue(
+        ctx,
+        (def as TransformTypeDef<TypeAny>).type,
+        pointer
+      );
+    case 'pipe': {
+      // preprocess types map any input, therefore values are generated for
+      // the type parsing the preprocessed values
+      const { in: _in, out } = def as PipeTypeDef<TypeAny, TypeAny>;
+      const preprocess =
+        (_in._def as TypeDef).kind === 'transform' &&
+        ((_in._def as TransformTypeDef<TypeAny>).type._def as TypeDef).kind ===
+          'mixed';
+      return generateValue(ctx, preprocess ? out : _in, pointer);
+    }
+    default:
+      throw new Error(
+        `Cannot generate values for ${def.kind ? `${def.kind} type` : 'custom type'}, at ${location(pointer)}`
+      );
+  }
+}
+
+/** @internal */
+function generateValue(
+  ctx: GenerateContextType,
+  _type: TypeAny,
+  pointer: (string | number)[]
+): UnknownType {
+  const { constraint, kind, refinements } = _type._def as TypeDef;
+  const nil = [
+    ...(constraint.acceptsNull ? [null] : []),
+    ...(constraint.acceptsUndefined ? [undefined] : []),
+  ];
+  if (
+    nil.length !== 0 &&
+    (ctx.depth > MAX_DEPTH || ctx.random() < NIL_PROBABILITY)
+  ) {
+    return pick(ctx, nil);
+  }
+  // values of types having custom rules, or mapping their values, are
+  // generated until the type parses them
+  const verify =
+    kind === 'pipe' ||
+    (refinements?.rules ?? []).length !== 0 ||
+    rulesOf(_type).some(({ refinement }) => refinement);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const value = generateKind(ctx, _type, pointer);
+    if (!verify || _type.safeParse(value).success) {
+      return value;
+    }
+  }
+  throw new Error(
+    `Cannot generate a value satisfying the type rules after ${MAX_ATTEMPTS} attempts, at ${location(pointer)}`
+  );
+}
+
+/**
+ * Generates a value accepted by the built type, which satisfies the type
+ * constraints, like string lengths and known `Patterns`, number and date
+ * ranges or collection sizes. Generated values are reproducible using the
+ * `seed` option. Object values use the object input key names, therefore
+ * `type.parse()` returns the type output value of generated values.
+ *
+ * ```ts
+ * import {
+ *    BuiltType,
+ *    NumberConstraint,
+ *    Patterns,
+ *    StrConstraint,
+ *    generate,
+ * } from '@azlabsjs/built-type';
+ *
+ * const user = BuiltType._object({
+ *    email: BuiltType._str({
+ *      constraint: new StrConstraint().pattern(Patterns.email),
+ *    }),
+ *    age: BuiltType._num({ constraint: new NumberConstraint().int().min(18) }),
+ *    tags: BuiltType._array(BuiltType._str()).nullable(),
+ * });
+ *
+ * generate(user, { seed: 42 }); // { email: '...', age: ..., tags: [...] }
+ * ```
+ *
+ * Values of instance types, and of types using custom rules which are not
+ * satisfied by generated values, cannot be generated and throw an error.
+ */
+export function generate(
+  _type: TypeAny,
+  options?: GenerateOptionsType
+): UnknownType {
+  return generateValue(
+    { random: createRandom(options?.seed ?? 1), depth: 0 },
+    _type,
+    []
+  );
+}
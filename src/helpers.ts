@@ -2,10 +2,11 @@ import { TypeAny } from './base';
 import { ObjectConstraint } from './type-constraints';
 import {
   ConstraintInterface,
+  ObjectTypeDef,
+  ParseOptions,
   PartrialTypeDef,
   RawShapeType,
   SafeParseReturnType,
-  TypeDef,
   UnknownType,
   _AbstractType,
 } from './types';
@@ -85,8 +86,13 @@ export function createObjectReverseShape<T extends RawShapeType>(
   return [
     _output,
     _outputPropMap,
-    mergeTypeDefRequiredParams(new ObjectConstraint(), def),
-  ] as [RawShapeType, Partial<{ [k: string]: keyof T }>, TypeDef];
+    {
+      ...mergeTypeDefRequiredParams(new ObjectConstraint(), def),
+      kind: 'object',
+      shape: _output,
+      propMap: _outputPropMap,
+    },
+  ] as [RawShapeType, Partial<{ [k: string]: keyof T }>, ObjectTypeDef];
 }
 
 /**
@@ -94,9 +100,10 @@ export function createObjectReverseShape<T extends RawShapeType>(
  */
 export function safeParse<T extends TypeAny>(
   value: T['_input'] | unknown,
-  _type: T
+  _type: T,
+  options?: ParseOptions
 ): SafeParseReturnType<T['_output']> {
-  return _type.safeParse(value);
+  return _type.safeParse(value, options);
 }
 
 /**
@@ -112,14 +119,79 @@ export function safeParseReverse<
   T extends _AbstractType<{ [k: string]: unknown }>,
 >(
   value: T['_output'],
-  _type: T & { reverseType: _AbstractType<UnknownType> }
+  _type: T & { reverseType: _AbstractType<UnknownType> },
+  options?: ParseOptions
 ): SafeParseReturnType<T['_input']> {
   return _type.reverseType
-    ? _type.reverseType.safeParse(value)
+    ? _type.reverseType.safeParse(value, options)
     : {
-        errors: ['reverse type definition not provided'],
+        errors: [
+          {
+            code: 'custom',
+            path: [],
+            message: 'reverse type definition not provided',
+          },
+        ],
         success: true,
         data: value,
       };
 }
+
+/**
+ * @internal
+ *
+ * Returns a promise that rejects with the signal abort reason as soon as the
+ * signal is aborted, or settles with the provided promise.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) {
+    return promise;
+  }
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * @internal
+ *
+ * Converts numeric strings and safe integers to bigint values. Fractional and
+ * non numeric values are returned unchanged, so that the bigint constraint
+ * rejects them instead of `BigInt` throwing a `SyntaxError` or a `RangeError`.
+ */
+export function coerceBigInt(value: unknown) {
+  if (typeof value === 'string' && /^\s*[-+]?\d+\s*$/.test(value)) {
+    return BigInt(value.trim());
+  }
+  if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    return BigInt(value);
+  }
+  return value;
+}
+
+/**
+ * @internal
+ *
+ * Returns the number of tuple items that must be provided, as trailing
+ * optional items might be omitted.
+ */
+export function requiredTupleItems(items: readonly TypeAny[]) {
+  let required = items.length;
+  while (required > 0 && items[required - 1].isOptional()) {
+    required--;
+  }
+  return required;
+}
 // #endregion Helper fonctions
@@ -1,24 +1,86 @@
 export { createType } from './base';
 export { BuiltType } from './built-type';
+export { ParseError, ParseErrorJSONType, isParseError } from './errors';
+export { GenerateOptionsType, generate } from './generate';
+export {
+  FlattenedErrorsType,
+  FormattedErrorsType,
+  flatten,
+  format,
+} from './issues';
+export {
+  FromJSONSchemaOptionsType,
+  JSONSchemaDraftType,
+  JSONSchemaOptionsType,
+  JSONSchemaType,
+  fromJSONSchema,
+  toJSONSchema,
+} from './json-schema';
+export {
+  getDefaultLocale,
+  getMessage,
+  registerCatalog,
+  setDefaultLocale,
+} from './messages';
+export {
+  OpenAPIComponentsType,
+  OpenAPIOptionsType,
+  toOpenAPIComponents,
+} from './openapi';
 export { Patterns } from './patterns';
+export {
+  RuleDescriptorType,
+  TypeDescriptorType,
+  TypeDescriptorVersionType,
+  TypeNodeDescriptorType,
+  ValueDescriptorType,
+  registerFunction,
+  revive,
+  serialize,
+} from './serialize';
+export { PrintTypeScriptOptionsType, printTypeScript } from './typescript';
 export {
   ArrayConstraint,
+  BigIntConstraint,
   BoolConstraint,
   DateContraint,
+  EnumConstraint,
+  FunctionConstraint,
+  InstanceOfConstraint,
+  LiteralConstraint,
   MapConstraint,
   NoConstraint,
   NullConstraint,
   NullishConstraint,
   NumberConstraint,
   ObjectConstraint,
+  RecordConstraint,
   SetConstraint,
   StrConstraint,
   SymbolConstraint,
+  TupleConstraint,
+  UnionConstraint,
 } from './type-constraints';
 export {
+  Brand,
+  CatchContextType,
   ConstraintInterface,
+  ConstraintIssueType,
+  ConstraintRefinementType,
+  ConstraintRuleType,
+  Issue,
+  IssueCode,
+  IssueMessageFnType,
+  MessageCatalogType,
+  ParseOptions,
+  RefinementContextType,
   TypeOf,
   infer,
+  InputOf,
+  input,
   AbstractType,
   ObjectType,
+  EnumType,
+  FunctionType,
+  TypeDef,
 } from './types';
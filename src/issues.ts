@@ -0,0 +1,128 @@
+import { Issue } from './types';
+
+/**
+ * @type
+ *
+ * Field keyed errors tree returned by `flatten()`
+ */
+export type FlattenedErrorsType = {
+  formErrors: string[];
+  fieldErrors: { [k: string]: string[] };
+};
+
+/**
+ * @type
+ *
+ * Nested errors tree returned by `format()`. Nodes messages are kept apart
+ * from their `fields`, so that property names cannot collide with them.
+ */
+export type FormattedErrorsType = {
+  errors: string[];
+  fields: { [k: string]: FormattedErrorsType };
+};
+
+/**
+ * @internal
+ *
+ * Returns the name of the provided value type, as reported in issues
+ * `received` property
+ */
+export function getValueType(value: unknown) {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value instanceof Date) {
+    return 'date';
+  }
+  if (value instanceof Map) {
+    return 'map';
+  }
+  if (value instanceof Set) {
+    return 'set';
+  }
+  return typeof value;
+}
+
+/**
+ * @internal
+ *
+ * Prefix the path of each issue with the provided path segments
+ */
+export function prefixIssues(
+  issues: Issue[] | undefined,
+  ...path: (string | number)[]
+): Issue[] {
+  return (issues ?? []).map((issue) => ({
+    ...issue,
+    path: [...path, ...issue.path],
+  }));
+}
+
+/**
+ * Flatten the issues list to form level and field level messages. Field
+ * errors are keyed by the joined path of the issues, in an object without
+ * prototype, as paths might be built from untrusted keys like `__proto__`.
+ *
+ * ```ts
+ * import { flatten } from '@azlabsjs/built-type';
+ *
+ * const result = user.safeParse({ name: 2, address: { city: 3 } });
+ *
+ * flatten(result.errors ?? []);
+ * // { formErrors: [], fieldErrors: { name: ['...'], 'address.city': ['...'] } }
+ * ```
+ */
+export function flatten(issues: Issue[]): FlattenedErrorsType {
+  const output: FlattenedErrorsType = {
+    formErrors: [],
+    fieldErrors: Object.create(null),
+  };
+  for (const issue of issues) {
+    if (issue.path.length === 0) {
+      output.formErrors.push(issue.message);
+      continue;
+    }
+    const key = issue.path.join('.');
+    output.fieldErrors[key] = [
+      ...(output.fieldErrors[key] ?? []),
+      issue.message,
+    ];
+  }
+  return output;
+}
+
+/**
+ * Format the issues list to a nested errors tree matching the shape of the
+ * parsed value. Each node `errors` property holds the messages of the issues
+ * reported on that node, and its `fields` property, an object without
+ * prototype, holds the nodes of its properties or items.
+ *
+ * ```ts
+ * import { format } from '@azlabsjs/built-type';
+ *
+ * const result = user.safeParse({ name: 2, address: { city: 3 } });
+ *
+ * format(result.errors ?? []);
+ * // { errors: [], fields: { name: { errors: ['...'], fields: {} }, address: { errors: [], fields: { city: ... } } } }
+ * ```
+ */
+export function format(issues: Issue[]): FormattedErrorsType {
+  const output = createFormattedNode();
+  for (const issue of issues) {
+    let node = output;
+    for (const segment of issue.path) {
+      node.fields[segment] = node.fields[segment] ?? createFormattedNode();
+      node = node.fields[segment];
+    }
+    node.errors.push(issue.message);
+  }
+  return output;
+}
+
+/** @internal */
+function createFormattedNode(): FormattedErrorsType {
+  return { errors: [], fields: Object.create(null) };
+}
@@ -0,0 +1,1190 @@
+import { TypeAny } from './base';
+import { BuiltType } from './built-type';
+import { Patterns } from './patterns';
+import {
+  ArrayConstraint,
+  NumberConstraint,
+  ObjectConstraint,
+  StrConstraint,
+} from './type-constraints';
+import {
+  AbstractType,
+  ArrayTypeDef,
+  ConstraintRuleType,
+  EnumTypeDef,
+  LazyTypeDef,
+  LiteralTypeDef,
+  LiteralValueType,
+  MapTypeDef,
+  ObjectTypeDef,
+  PipeTypeDef,
+  RecordTypeDef,
+  TransformTypeDef,
+  TupleTypeDef,
+  TypeDef,
+  UnionTypeDef,
+  UnknownType,
+} from './types';
+
+/**
+ * @type
+ *
+ * JSON schema drafts supported by `toJSONSchema()`
+ */
+export type JSONSchemaDraftType = '2020-12' | '07';
+
+/**
+ * @type
+ *
+ * JSON schema object
+ */
+export type JSONSchemaType = { [k: string]: UnknownType };
+
+/**
+ * @type
+ *
+ * Options used when exporting built types to JSON schemas
+ */
+export type JSONSchemaOptionsType = {
+  /**
+   * JSON schema draft of the exported schema. Defaults to `2020-12`
+   */
+  draft?: JSONSchemaDraftType;
+
+  /**
+   * Policy applied on types that cannot be represented in JSON schemas, like
+   * `bigint`, `symbol`, function or class instance types:
+   * - `throw` throws an error reporting the type and its location
+   * - `any` exports the type as an empty schema, which accepts any value
+   *
+   * Defaults to `throw`
+   */
+  unrepresentable?: 'throw' | 'any';
+};
+
+/**
+ * @internal
+ *
+ * Context of a schema export. Types registered in `refs` are exported as
+ * references to their definition, created using the `ref` function, except
+ * for the `definition` type which is being exported. `io` selects whether
+ * values accepted by types or values returned by types are described.
+ */
+export type ContextType = {
+  draft: JSONSchemaDraftType;
+  unrepresentable: 'throw' | 'any';
+  io: 'input' | 'output';
+  defs: Record<string, JSONSchemaType>;
+  refs: Map<TypeAny, string>;
+  ref: (name: string) => string;
+  definition?: TypeAny;
+};
+
+/** @internal */
+const SCHEMA_URIS: Record<JSONSchemaDraftType, string> = {
+  '2020-12': 'https://json-schema.org/draft/2020-12/schema',
+  '07': 'http://json-schema.org/draft-07/schema#',
+};
+
+/** @internal */
+function defsKeyword(ctx: ContextType) {
+  return ctx.draft === '07' ? 'definitions' : '$defs';
+}
+
+/** @internal */
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * @internal
+ *
+ * Converts default values to JSON compatible values, returns `undefined`
+ * for values that cannot be represented in JSON
+ */
+export function toJSONValue(value: UnknownType): UnknownType {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Set) {
+    return toJSONValue(Array.from(value));
+  }
+  if (value instanceof Map) {
+    return toJSONValue(Array.from(value.entries()));
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(toJSONValue);
+    return items.some((item) => typeof item === 'undefined')
+      ? undefined
+      : items;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).map(([k, v]) => [k, toJSONValue(v)]);
+    return entries.some(([, v]) => typeof v === 'undefined')
+      ? undefined
+      : Object.fromEntries(entries);
+  }
+  return ['string', 'number', 'boolean'].includes(typeof value) ||
+    value === null
+    ? value
+    : undefined;
+}
+
+/** @internal */
+function unrepresentable(
+  ctx: ContextType,
+  construct: string,
+  pointer: string[]
+): JSONSchemaType {
+  if (ctx.unrepresentable === 'any') {
+    return {};
+  }
+  throw new Error(
+    `${construct} cannot be represented in JSON schema, at #/${pointer.join('/')}`
+  );
+}
+
+/** @internal */
+function isRequired(ctx: ContextType, _type: TypeAny) {
+  // output values of types providing a default value are never undefined
+  return (
+    !_type.isOptional() ||
+    (ctx.io === 'output' && typeof _type._def.defaultValue === 'function')
+  );
+}
+
+/** @internal */
+function rulesOf(def: TypeDef): ConstraintRuleType[] {
+  return def.constraint?.rules ?? [];
+}
+
+/**
+ * @internal
+ *
+ * Returns custom rules added using `refine()`, `superRefine()` or
+ * `refineAsync()`, either on the type constraint or on the type itself
+ */
+function refinementsOf(def: TypeDef): ConstraintRuleType[] {
+  return [...rulesOf(def), ...(def.refinements?.rules ?? [])].filter(
+    (rule) => typeof rule.refinement !== 'undefined'
+  );
+}
+
+/** @internal */
+function applyStringRules(
+  ctx: ContextType,
+  schema: JSONSchemaType,
+  rules: ConstraintRuleType[],
+  pointer: string[]
+) {
+  const patterns: string[] = [];
+  for (const { code, params } of rules) {
+    switch (code) {
+      case 'too_small':
+        schema.minLength = params?.minimum;
+        break;
+      case 'too_big':
+        schema.maxLength = params?.maximum;
+        break;
+      case 'invalid_length':
+        schema.minLength = params?.length;
+        schema.maxLength = params?.length;
+        break;
+      case 'invalid_string': {
+        const format = Object.keys(FORMATS).find(
+          (name) => FORMATS[name].source === params?.pattern
+        );
+        if (format) {
+          schema.format = format;
+          break;
+        }
+        // JSON schema patterns do not support flags, except for the unicode
+        // flag which is always applied
+        if (params?.flags && /[^u]/.test(params.flags)) {
+          unrepresentable(
+            ctx,
+            `Pattern /${params.pattern}/${params.flags}`,
+            pointer
+          );
+          break;
+        }
+        patterns.push(
+          params?.validation === 'starts_with'
+            ? `^${escapeRegExp(params.needle)}`
+            : params?.validation === 'ends_with'
+              ? `${escapeRegExp(params.needle)}$`
+              : params?.pattern
+        );
+        break;
+      }
+    }
+  }
+  if (patterns.length !== 0) {
+    schema.pattern = patterns[0];
+  }
+  if (patterns.length > 1) {
+    schema.allOf = patterns.slice(1).map((pattern) => ({ pattern }));
+  }
+  return schema;
+}
+
+/** @internal */
+function applyNumberRules(schema: JSONSchemaType, rules: ConstraintRuleType[]) {
+  for (const { code, params } of rules) {
+    switch (code) {
+      case 'too_small':
+        schema[params?.exclusive ? 'exclusiveMinimum' : 'minimum'] =
+          params?.minimum;
+        break;
+      case 'too_big':
+        schema[params?.exclusive ? 'exclusiveMaximum' : 'maximum'] =
+          params?.maximum;
+        break;
+      case 'not_in_range':
+        schema.minimum = params?.minimum;
+        schema.maximum = params?.maximum;
+        break;
+      case 'not_integer':
+        schema.type = 'integer';
+        break;
+      case 'not_float':
+        schema.not = { type: 'integer' };
+        break;
+      case 'not_multiple_of':
+        schema.multipleOf = params?.multipleOf;
+        break;
+    }
+  }
+  return schema;
+}
+
+/** @internal */
+function applyArrayRules(schema: JSONSchemaType, rules: ConstraintRuleType[]) {
+  for (const { code, params } of rules) {
+    switch (code) {
+      case 'too_small':
+        schema.minItems = params?.minimum;
+        break;
+      case 'too_big':
+        schema.maxItems = params?.maximum;
+        break;
+      case 'invalid_length':
+        schema.minItems = params?.length;
+        schema.maxItems = params?.length;
+        break;
+    }
+  }
+  return schema;
+}
+
+/** @internal */
+function createTupleSchema(
+  ctx: ContextType,
+  items: JSONSchemaType[],
+  rest?: JSONSchemaType
+): JSONSchemaType {
+  return ctx.draft === '07'
+    ? { type: 'array', items, additionalItems: rest ?? false }
+    : { type: 'array', prefixItems: items, items: rest ?? false };
+}
+
+/**
+ * @internal
+ *
+ * Checks if the schema only accepts string values, as required by object
+ * property names
+ */
+function isStringSchema(schema: JSONSchemaType) {
+  const values = Array.isArray(schema.enum)
+    ? schema.enum
+    : 'const' in schema
+      ? [schema.const]
+      : undefined;
+  return values
+    ? values.every((value) => typeof value === 'string')
+    : schema.type === 'string';
+}
+
+/** @internal */
+function createLiteralSchema(
+  ctx: ContextType,
+  value: LiteralValueType,
+  pointer: string[]
+): JSONSchemaType {
+  if (value === null) {
+    return { type: 'null' };
+  }
+  return ['string', 'number', 'boolean'].includes(typeof value)
+    ? { const: value }
+    : unrepresentable(ctx, `${typeof value} literal`, pointer);
+}
+
+/** @internal */
+function addRequired(schema: JSONSchemaType, keys: string[]) {
+  schema.required = Array.from(
+    new Set([...((schema.required as string[]) ?? []), ...keys])
+  );
+}
+
+/** @internal */
+function createObjectSchema(
+  ctx: ContextType,
+  def: ObjectTypeDef,
+  pointer: string[]
+): JSONSchemaType {
+  const schema: JSONSchemaType = { type: 'object', properties: {} };
+  for (const key in def.shape) {
+    const _type = def.shape[key] as TypeAny;
+    // output values use shape keys, while input values are read using the
+    // input key names of the object
+    const segments =
+      ctx.io === 'output'
+        ? [key]
+        : ((def.propMap as Record<string, string>)[key] ?? key).split('.');
+    const required = isRequired(ctx, _type);
+    // input keys containing `.` are read from nested input objects, therefore
+    // nested object schemas are created for each path segment
+    let node = schema;
+    const _pointer = [...pointer];
+    for (const segment of segments.slice(0, -1)) {
+      const properties = node.properties as Record<string, JSONSchemaType>;
+      properties[segment] = properties[segment] ?? {
+        type: 'object',
+        properties: {},
+      };
+      if (required) {
+        addRequired(node, [segment]);
+      }
+      node = properties[segment];
+      _pointer.push('properties', segment);
+    }
+    const name = segments[segments.length - 1];
+    (node.properties as Record<string, JSONSchemaType>)[name] = walk(
+      ctx,
+      _type,
+      [..._pointer, 'properties', name]
+    );
+    if (required) {
+      addRequired(node, [name]);
+    }
+  }
+  for (const { code, params } of rulesOf(def)) {
+    if (code === 'missing_keys') {
+      addRequired(schema, params?.keys ?? []);
+    }
+  }
+  if (def.catchall) {
+    schema.additionalProperties = walk(ctx, def.catchall as TypeAny, [
+      ...pointer,
+      'additionalProperties',
+    ]);
+  } else if (def.unknownKeys === 'strict') {
+    schema.additionalProperties = false;
+  }
+  return schema;
+}
+
+/** @internal */
+function createLazySchema(ctx: ContextType, _type: TypeAny): JSONSchemaType {
+  let name = ctx.refs.get(_type);
+  if (!name) {
+    name = `Type${ctx.refs.size + 1}`;
+    // the reference is registered before walking the resolved type, so that
+    // recursive types reference the definition instead of being walked again
+    ctx.refs.set(_type, name);
+    ctx.defs[name] = walk(ctx, (_type._def as LazyTypeDef<TypeAny>).getter(), [
+      defsKeyword(ctx),
+      name,
+    ]);
+  }
+  return { $ref: ctx.ref(name) };
+}
+
+/** @internal */
+function createSchema(
+  ctx: ContextType,
+  _type: TypeAny,
+  pointer: string[]
+): JSONSchemaType {
+  const def = _type._def as TypeDef;
+  const [refinement] = refinementsOf(def);
+  if (refinement) {
+    // custom rules are functions, which cannot be described by JSON schemas
+    return unrepresentable(
+      ctx,
+      `Custom ${refinement.refinement!.method} rule`,
+      pointer
+    );
+  }
+  switch (def.kind) {
+    case 'string':
+      return applyStringRules(ctx, { type: 'string' }, rulesOf(def), pointer);
+    case 'number':
+      return applyNumberRules({ type: 'number' }, rulesOf(def));
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      // date ranges cannot be represented by the date-time format
+      for (const { code } of rulesOf(def)) {
+        if (code === 'too_small' || code === 'too_big') {
+          unrepresentable(
+            ctx,
+            code === 'too_small' ? 'Date minimum' : 'Date maximum',
+            pointer
+          );
+        }
+      }
+      return { type: 'string', format: 'date-time' };
+    case 'null':
+    case 'undefined':
+      return { type: 'null' };
+    case 'mixed':
+      return {};
+    case 'array':
+      return applyArrayRules(
+        {
+          type: 'array',
+          items: walk(ctx, (def as ArrayTypeDef<TypeAny>).item, [
+            ...pointer,
+            'items',
+          ]),
+        },
+        rulesOf(def)
+      );
+    case 'set':
+      return applyArrayRules(
+        {
+          type: 'array',
+          items: walk(ctx, (def as ArrayTypeDef<TypeAny>).item, [
+            ...pointer,
+            'items',
+          ]),
+          uniqueItems: true,
+        },
+        rulesOf(def)
+      );
+    case 'tuple': {
+      const { items, rest } = def as TupleTypeDef<TypeAny[], TypeAny>;
+      const key = ctx.draft === '07' ? 'items' : 'prefixItems';
+      return applyArrayRules(
+        createTupleSchema(
+          ctx,
+          items.map((item, i) => walk(ctx, item, [...pointer, key, String(i)])),
+          rest
+            ? walk(ctx, rest, [
+                ...pointer,
+                ctx.draft === '07' ? 'additionalItems' : 'items',
+              ])
+            : undefined
+        ),
+        rulesOf(def)
+      );
+    }
+    case 'map': {
+      // map types are represented by their entries, which they accept when
+      // coercing their input
+      const { key, value } = def as MapTypeDef<TypeAny, TypeAny>;
+      const _pointer = [
+        ...pointer,
+        'items',
+        ctx.draft === '07' ? 'items' : 'prefixItems',
+      ];
+      return {
+        type: 'array',
+        items: {
+          ...createTupleSchema(ctx, [
+            walk(ctx, key, [..._pointer, '0']),
+            walk(ctx, value, [..._pointer, '1']),
+          ]),
+          minItems: 2,
+        },
+      };
+    }
+    case 'record': {
+      const { key, value } = def as RecordTypeDef<TypeAny, TypeAny>;
+      const keySchema = walk(ctx, key, [...pointer, 'propertyNames']);
+      if (!isStringSchema(keySchema)) {
+        return unrepresentable(ctx, 'Non string record key', pointer);
+      }
+      const { type, ...propertyNames } = keySchema;
+      return {
+        type: 'object',
+        ...(Object.keys(propertyNames).length !== 0 || type !== 'string'
+          ? { propertyNames: keySchema }
+          : {}),
+        additionalProperties: walk(ctx, value, [
+          ...pointer,
+          'additionalProperties',
+        ]),
+      };
+    }
+    case 'object':
+      return createObjectSchema(ctx, def as ObjectTypeDef, pointer);
+    case 'union':
+    case 'discriminatedUnion': {
+      const key = def.kind === 'union' ? 'anyOf' : 'oneOf';
+      return {
+        [key]: (def as UnionTypeDef<TypeAny[]>).options.map((option, i) =>
+          walk(ctx, option, [...pointer, key, String(i)])
+        ),
+      };
+    }
+    case 'literal':
+      return createLiteralSchema(
+        ctx,
+        (def as LiteralTypeDef<LiteralValueType>).value,
+        pointer
+      );
+    case 'enum':
+      return { enum: [...(def as EnumTypeDef<string | number>).values] };
+    case 'lazy':
+      return createLazySchema(ctx, _type);
+    case 'transform':
+      // values returned by transform functions cannot be described
+      return ctx.io === 'output'
+        ? {}
+        : walk(ctx, (def as TransformTypeDef<TypeAny>).type, pointer);
+    case 'pipe':
+      return walk(
+        ctx,
+        ctx.io === 'output'
+          ? (def as PipeTypeDef<TypeAny, TypeAny>).out
+          : (def as PipeTypeDef<TypeAny, TypeAny>).in,
+        pointer
+      );
+    default:
+      return unrepresentable(
+        ctx,
+        def.kind ? `${def.kind} type` : 'Custom type',
+        pointer
+      );
+  }
+}
+
+/** @internal */
+function withNull(schema: JSONSchemaType): JSONSchemaType {
+  if (schema.type === 'null' || Object.keys(schema).length === 0) {
+    return schema;
+  }
+  if (typeof schema.type === 'string' && !('enum' in schema)) {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+/**
+ * @internal
+ *
+ * Checks if null values must be added to the type schema, using the type
+ * constraint flags, as objects coerce `null` values without accepting them.
+ * Transform, pipe and lazy types delegate to the types they wrap, and unions
+ * only require null values to be added if none of their members support them.
+ */
+function acceptsNull(_type: TypeAny) {
+  const def = _type._def as TypeDef;
+  switch (def.kind) {
+    case 'transform':
+    case 'pipe':
+    case 'lazy':
+      return false;
+    case 'union':
+    case 'discriminatedUnion':
+      return (
+        def.constraint.acceptsNull === true &&
+        !(def as UnionTypeDef<TypeAny[]>).options.some((option) =>
+          option.isNullable()
+        )
+      );
+    default:
+      return def.constraint.acceptsNull === true;
+  }
+}
+
+/**
+ * @internal
+ *
+ * Converts type examples to JSON values. Output examples are the values
+ * returned by the type for each example, examples failing to parse are
+ * dropped.
+ */
+function examplesOf(ctx: ContextType, _type: TypeAny) {
+  const examples = (_type._def as TypeDef).examples ?? [];
+  return examples
+    .map((example) => {
+      if (ctx.io === 'input') {
+        return toJSONValue(example);
+      }
+      const result = _type.safeParse(example);
+      return result.success ? toJSONValue(result.data) : undefined;
+    })
+    .filter((example) => typeof example !== 'undefined');
+}
+
+/** @internal */
+export function walk(
+  ctx: ContextType,
+  _type: TypeAny,
+  pointer: string[]
+): JSONSchemaType {
+  const def = _type._def as TypeDef;
+  const name = ctx.refs.get(_type);
+  if (name && def.kind !== 'lazy' && _type !== ctx.definition) {
+    // annotations of referenced types are part of their definition
+    return { $ref: ctx.ref(name) };
+  }
+  let schema = createSchema(ctx, _type, pointer);
+  if (acceptsNull(_type)) {
+    schema = withNull(schema);
+  }
+  if (def.description) {
+    schema = { ...schema, description: def.description };
+  }
+  const examples = examplesOf(ctx, _type);
+  if (examples.length !== 0) {
+    schema = { ...schema, examples };
+  }
+  // default factories are not called, as they may return a different value
+  // on each call or have side effects
+  const _default =
+    def.staticDefault && ctx.io === 'input'
+      ? toJSONValue(def.staticDefault.value)
+      : undefined;
+  if (typeof _default !== 'undefined') {
+    schema = { ...schema, default: _default };
+  }
+  return schema;
+}
+
+/**
+ * Export the built type as a JSON schema describing the values accepted by
+ * the type. Object properties are exported using their input names, and
+ * constraint rules are mapped to JSON schema keywords.
+ *
+ * ```ts
+ * import {
+ *    BuiltType,
+ *    NumberConstraint,
+ *    StrConstraint,
+ *    toJSONSchema,
+ * } from '@azlabsjs/built-type';
+ *
+ * const user = BuiltType._object(
+ *    {
+ *      name: BuiltType._str({ constraint: new StrConstraint().minLength(2) }),
+ *      age: BuiltType._num({ constraint: new NumberConstraint().int() }).optional(),
+ *    },
+ *    { name: 'full_name' }
+ * );
+ *
+ * toJSONSchema(user, { draft: '07' });
+ * // {
+ * //   $schema: 'http://json-schema.org/draft-07/schema#',
+ * //   type: 'object',
+ * //   properties: {
+ * //     full_name: { type: 'string', minLength: 2 },
+ * //     age: { type: 'integer' },
+ * //   },
+ * //   required: ['full_name'],
+ * // }
+ * ```
+ *
+ * Recursive types created using `BuiltType._lazy()` are exported as
+ * definitions referenced using `$ref`. Constructs that cannot be represented,
+ * like bigint types, regular expression flags, date ranges or custom rules
+ * added using `refine()`, `superRefine()` or `refineAsync()`, throw an error
+ * unless the `unrepresentable` option is set to `'any'`.
+ */
+export function toJSONSchema(
+  _type: TypeAny,
+  options?: JSONSchemaOptionsType
+): JSONSchemaType {
+  const ctx: ContextType = {
+    draft: options?.draft ?? '2020-12',
+    unrepresentable: options?.unrepresentable ?? 'throw',
+    io: 'input',
+    defs: {},
+    refs: new Map(),
+    ref: (name) => `#/${defsKeyword(ctx)}/${name}`,
+  };
+  const schema = walk(ctx, _type, []);
+  return {
+    $schema: SCHEMA_URIS[ctx.draft],
+    ...schema,
+    ...(Object.keys(ctx.defs).length !== 0
+      ? { [defsKeyword(ctx)]: ctx.defs }
+      : {}),
+  };
+}
+
+/**
+ * @type
+ *
+ * Options used when creating built types from JSON schemas
+ */
+export type FromJSONSchemaOptionsType = {
+  /**
+   * Policy applied on JSON schema keywords that cannot be honoured by built
+   * types, like `allOf` or `uniqueItems`:
+   * - `throw` throws an error reporting each keyword and its location
+   * - `ignore` creates the built type without the unsupported keywords
+   *
+   * Defaults to `throw`
+   */
+  unsupported?: 'throw' | 'ignore';
+};
+
+/** @internal */
+type FromContextType = {
+  root: JSONSchemaType | boolean;
+  refs: Map<string, { type?: TypeAny }>;
+  unsupported: string[];
+};
+
+/**
+ * @internal
+ *
+ * JSON schema keywords honoured by `fromJSONSchema()`, or ignored because
+ * they only annotate the schema
+ */
+const SUPPORTED_KEYWORDS = new Set([
+  '$schema',
+  '$id',
+  '$comment',
+  '$defs',
+  'definitions',
+  'title',
+  'description',
+  'examples',
+  'default',
+  'deprecated',
+  'readOnly',
+  'writeOnly',
+  '$ref',
+  'type',
+  'nullable',
+  'const',
+  'enum',
+  'anyOf',
+  'oneOf',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'format',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'items',
+  'prefixItems',
+  'additionalItems',
+  'minItems',
+  'maxItems',
+  'properties',
+  'required',
+  'additionalProperties',
+  'propertyNames',
+]);
+
+/**
+ * @internal
+ *
+ * String formats supported by `fromJSONSchema()`
+ */
+const FORMATS: Record<string, RegExp> = {
+  email: Patterns.email,
+  uuid: Patterns.uuid,
+  'date-time': Patterns.datetime({ offset: true }),
+};
+
+/** @internal */
+function unsupported(ctx: FromContextType, keyword: string, pointer: string[]) {
+  ctx.unsupported.push(`#/${pointer.join('/')}: ${keyword}`);
+}
+
+/**
+ * @internal
+ *
+ * Resolves a local JSON pointer, like `#/$defs/user`, against the root schema
+ */
+function resolvePointer(root: JSONSchemaType | boolean, ref: string) {
+  let node: UnknownType = root;
+  for (const segment of ref.slice(2).split('/').filter(Boolean)) {
+    if (typeof node !== 'object' || node === null) {
+      return undefined;
+    }
+    node = node[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  return node as JSONSchemaType | boolean | undefined;
+}
+
+/** @internal */
+function createRefType(
+  ctx: FromContextType,
+  ref: string,
+  pointer: string[]
+): TypeAny {
+  let entry = ctx.refs.get(ref);
+  if (!entry) {
+    const target = ref.startsWith('#')
+      ? resolvePointer(ctx.root, ref)
+      : undefined;
+    if (typeof target === 'undefined') {
+      unsupported(ctx, `$ref ${ref}`, pointer);
+      return BuiltType._mixed();
+    }
+    // the entry is registered before the referenced schema is built, so that
+    // recursive schemas resolve to the same type
+    entry = {};
+    ctx.refs.set(ref, entry);
+    entry.type = build(ctx, target, ref.slice(2).split('/').filter(Boolean));
+  }
+  // each reference site gets its own lazy type, as modifiers like
+  // `optional()` must not leak to other references of the same schema
+  const resolved = entry;
+  return BuiltType._lazy(() => resolved.type as TypeAny);
+}
+
+/** @internal */
+function createStrType(
+  ctx: FromContextType,
+  schema: JSONSchemaType,
+  pointer: string[]
+): TypeAny {
+  const constraint = new StrConstraint();
+  if (typeof schema.minLength === 'number') {
+    constraint.minLength(schema.minLength);
+  }
+  if (typeof schema.maxLength === 'number') {
+    constraint.maxLength(schema.maxLength);
+  }
+  if (typeof schema.pattern === 'string') {
+    constraint.pattern(new RegExp(schema.pattern, 'u'));
+  }
+  const format = FORMATS[schema.format];
+  if (format) {
+    constraint.refine(
+      (value) => typeof value === 'string' && format.test(value),
+      {
+        code: 'invalid_string',
+        params: { validation: 'pattern', pattern: format.source },
+      }
+    );
+  } else if (typeof schema.format === 'string') {
+    unsupported(ctx, `format ${schema.format}`, pointer);
+  }
+  return BuiltType._str({ constraint });
+}
+
+/** @internal */
+function createNumType(schema: JSONSchemaType, integer: boolean): TypeAny {
+  const constraint = new NumberConstraint();
+  if (integer) {
+    constraint.int();
+  }
+  if (typeof schema.minimum === 'number') {
+    constraint.min(schema.minimum);
+  }
+  if (typeof schema.maximum === 'number') {
+    constraint.max(schema.maximum);
+  }
+  const { exclusiveMinimum: minimum, exclusiveMaximum: maximum } = schema;
+  if (typeof minimum === 'number') {
+    constraint.refine((value) => typeof value === 'number' && value > minimum, {
+      code: 'too_small',
+      params: { minimum, exclusive: true, type: 'number' },
+    });
+  }
+  if (typeof maximum === 'number') {
+    constraint.refine((value) => typeof value === 'number' && value < maximum, {
+      code: 'too_big',
+      params: { maximum, exclusive: true, type: 'number' },
+    });
+  }
+  const { multipleOf } = schema;
+  if (typeof multipleOf === 'number') {
+    constraint.refine(
+      (value) =>
+        typeof value === 'number' &&
+        Number.isInteger(Number((value / multipleOf).toPrecision(15))),
+      { code: 'not_multiple_of', params: { multipleOf } }
+    );
+  }
+  return BuiltType._num({ constraint });
+}
+
+/** @internal */
+function createArrayType(
+  ctx: FromContextType,
+  schema: JSONSchemaType,
+  pointer: string[]
+): TypeAny {
+  // draft 07 declares tuple items using an `items` array, while draft
+  // 2020-12 declares them using `prefixItems`
+  const [key, restKey] = Array.isArray(schema.prefixItems)
+    ? ['prefixItems', 'items']
+    : ['items', 'additionalItems'];
+  if (Array.isArray(schema[key])) {
+    const items = (schema[key] as JSONSchemaType[]).map((item, i) =>
+      build(ctx, item, [...pointer, key, String(i)])
+    );
+    // JSON schema tuples accept additional items unless they are disallowed
+    const rest =
+      schema[restKey] === false
+        ? undefined
+        : build(ctx, schema[restKey] ?? true, [...pointer, restKey]);
+    const { minItems, maxItems } = schema;
+    if (typeof minItems === 'number' && minItems > items.length) {
+      unsupported(ctx, 'minItems', pointer);
+    }
+    if (typeof maxItems === 'number' && (rest || maxItems < items.length)) {
+      unsupported(ctx, 'maxItems', pointer);
+    }
+    return BuiltType._tuple(items as [TypeAny], rest);
+  }
+  const constraint = new ArrayConstraint();
+  if (typeof schema.minItems === 'number') {
+    constraint.min(schema.minItems);
+  }
+  if (typeof schema.maxItems === 'number') {
+    constraint.max(schema.maxItems);
+  }
+  return BuiltType._array(
+    typeof schema.items === 'undefined'
+      ? BuiltType._mixed()
+      : build(ctx, schema.items, [...pointer, 'items']),
+    { constraint }
+  );
+}
+
+/** @internal */
+function createObjType(
+  ctx: FromContextType,
+  schema: JSONSchemaType,
+  pointer: string[]
+): TypeAny {
+  const properties = (schema.properties ?? {}) as Record<
+    string,
+    JSONSchemaType | boolean
+  >;
+  const required: string[] = Array.isArray(schema.required)
+    ? schema.required
+    : [];
+  const { additionalProperties } = schema;
+  if (
+    Object.keys(properties).length === 0 &&
+    typeof additionalProperties === 'object'
+  ) {
+    return BuiltType._record(
+      typeof schema.propertyNames === 'undefined'
+        ? BuiltType._str()
+        : (build(ctx, schema.propertyNames, [
+            ...pointer,
+            'propertyNames',
+          ]) as AbstractType<string>),
+      build(ctx, additionalProperties, [...pointer, 'additionalProperties'])
+    );
+  }
+  if (typeof schema.propertyNames !== 'undefined') {
+    unsupported(ctx, 'propertyNames', pointer);
+  }
+  const shape: Record<string, TypeAny> = {};
+  for (const key in properties) {
+    shape[key] = build(ctx, properties[key], [...pointer, 'properties', key]);
+    if (!required.includes(key)) {
+      shape[key].optional();
+    }
+  }
+  const constraint = new ObjectConstraint();
+  const missing = required.filter((key) => !(key in properties));
+  if (missing.length !== 0) {
+    constraint.required(missing);
+  }
+  const _type = BuiltType._object(shape, {}, { constraint });
+  // JSON schema objects accept additional properties unless they are
+  // disallowed, therefore they are kept in the output
+  return additionalProperties === false
+    ? _type.strict()
+    : typeof additionalProperties === 'object'
+      ? _type.catchall(
+          build(ctx, additionalProperties, [...pointer, 'additionalProperties'])
+        )
+      : _type.passthrough();
+}
+
+/** @internal */
+function createTypeOf(
+  ctx: FromContextType,
+  schema: JSONSchemaType,
+  type: string,
+  pointer: string[]
+): TypeAny {
+  switch (type) {
+    case 'string':
+      return createStrType(ctx, schema, pointer);
+    case 'number':
+    case 'integer':
+      return createNumType(schema, type === 'integer');
+    case 'boolean':
+      return BuiltType._bool();
+    case 'null':
+      return BuiltType._null();
+    case 'array':
+      return createArrayType(ctx, schema, pointer);
+    case 'object':
+      return createObjType(ctx, schema, pointer);
+    default:
+      unsupported(ctx, `type ${type}`, pointer);
+      return BuiltType._mixed();
+  }
+}
+
+/** @internal */
+function createUnionType(options: TypeAny[]) {
+  return options.length === 1
+    ? options[0]
+    : BuiltType._union(options as [TypeAny, ...TypeAny[]]);
+}
+
+/** @internal */
+function createFromSchema(
+  ctx: FromContextType,
+  schema: JSONSchemaType,
+  pointer: string[]
+): TypeAny {
+  if (typeof schema.$ref === 'string') {
+    return createRefType(ctx, schema.$ref, pointer);
+  }
+  const values: UnknownType[] | undefined =
+    'const' in schema ? [schema.const] : schema.enum;
+  if (Array.isArray(values)) {
+    const literals = values.filter((value) => value !== null);
+    // null values are added by `build()`, therefore schemas only accepting
+    // null values are created as null types
+    if (values.length !== 0 && literals.length === 0) {
+      return BuiltType._null();
+    }
+    if (
+      literals.some((value) => typeof value === 'object') ||
+      literals.length === 0
+    ) {
+      unsupported(ctx, 'const' in schema ? 'const' : 'enum', pointer);
+      return BuiltType._mixed();
+    }
+    return literals.every((value) =>
+      ['string', 'number'].includes(typeof value)
+    )
+      ? BuiltType._enum(literals as [string | number])
+      : createUnionType(literals.map((value) => BuiltType._literal(value)));
+  }
+  for (const key of ['anyOf', 'oneOf']) {
+    if (Array.isArray(schema[key])) {
+      return createUnionType(
+        (schema[key] as JSONSchemaType[]).map((option, i) =>
+          build(ctx, option, [...pointer, key, String(i)])
+        )
+      );
+    }
+  }
+  const types = (
+    Array.isArray(schema.type)
+      ? schema.type
+      : typeof schema.type === 'string'
+        ? [schema.type]
+        : 'properties' in schema || 'additionalProperties' in schema
+          ? ['object']
+          : 'items' in schema || 'prefixItems' in schema
+            ? ['array']
+            : []
+  ) as string[];
+  if (types.length === 0) {
+    return BuiltType._mixed();
+  }
+  const nonNull = types.filter((type) => type !== 'null');
+  return createUnionType(
+    (nonNull.length === 0 ? ['null'] : nonNull).map((type) =>
+      createTypeOf(ctx, schema, type, pointer)
+    )
+  );
+}
+
+/** @internal */
+function build(
+  ctx: FromContextType,
+  schema: JSONSchemaType | boolean,
+  pointer: string[]
+): TypeAny {
+  if (typeof schema === 'boolean') {
+    if (!schema) {
+      unsupported(ctx, 'false schema', pointer);
+    }
+    return BuiltType._mixed();
+  }
+  for (const keyword in schema) {
+    if (!SUPPORTED_KEYWORDS.has(keyword)) {
+      unsupported(ctx, keyword, pointer);
+    }
+  }
+  let _type = createFromSchema(ctx, schema, pointer);
+  const nullable =
+    schema.nullable === true ||
+    (Array.isArray(schema.type) && schema.type.includes('null')) ||
+    (Array.isArray(schema.enum) && schema.enum.includes(null));
+  // referenced schemas might not be built yet, therefore they cannot be
+  // parsed to check whether they accept null values
+  if (nullable && (typeof schema.$ref === 'string' || !_type.isNullable())) {
+    _type = BuiltType._union([_type, BuiltType._null()]);
+  }
+  if (typeof schema.description === 'string') {
+    _type = _type.describe(schema.description);
+  }
+  if (Array.isArray(schema.examples)) {
+    _type = _type.examples(schema.examples);
+  }
+  if (typeof schema.default !== 'undefined') {
+    _type = _type.default(schema.default);
+  }
+  return _type;
+}
+
+/**
+ * Creates a built type from a JSON schema. Local references, like
+ * `#/$defs/user`, are resolved to lazy types, which allows recursive schemas
+ * to be used. Keywords that cannot be honoured by built types are reported
+ * in the thrown error, unless `unsupported` option is set to `ignore`.
+ *
+ * ```ts
+ * import { fromJSONSchema } from '@azlabsjs/built-type';
+ *
+ * const user = fromJSONSchema({
+ *    type: 'object',
+ *    properties: {
+ *      name: { type: 'string', minLength: 2 },
+ *      age: { type: ['integer', 'null'], minimum: 0 },
+ *    },
+ *    required: ['name'],
+ * });
+ *
+ * user.parse({ name: 'John', age: null }); // { name: 'John', age: null }
+ * ```
+ */
+export function fromJSONSchema(
+  schema: JSONSchemaType | boolean,
+  options?: FromJSONSchemaOptionsType
+): AbstractType<UnknownType> {
+  const ctx: FromContextType = {
+    root: schema,
+    refs: new Map(),
+    unsupported: [],
+  };
+  const _type = build(ctx, schema, []);
+  if (ctx.unsupported.length !== 0 && options?.unsupported !== 'ignore') {
+    throw new Error(
+      [
+        'JSON schema contains keywords that cannot be honoured:',
+        ...ctx.unsupported.map((keyword) => `  - ${keyword}`),
+      ].join('\n')
+    );
+  }
+  return _type;
+}
@@ -0,0 +1,174 @@
+import { MessageCatalogType, UnknownType } from './types';
+
+/** @internal */
+function formatDate(value: number | Date, locale: string) {
+  return new Date(value).toLocaleString(locale);
+}
+
+/** @internal */
+function joinValues(values: UnknownType[]) {
+  return values.map(String).join(', ');
+}
+
+/**
+ * English message catalog
+ */
+export const en: MessageCatalogType = {
+  invalid_type: ({ expected, received, params }) =>
+    params?.instanceOf
+      ? `Expect the value to be an instance of ${expected}`
+      : `Value must be of type ${expected}, ${received} given`,
+  invalid_literal: ({ params }) =>
+    `Expect the value to equal ${String(params?.expected)}`,
+  invalid_enum_value: ({ params }) =>
+    `Expect the value to be one of ${joinValues(params?.options ?? [])}`,
+  invalid_union: () => 'Value does not match any of the union members',
+  invalid_union_discriminator: ({ params }) =>
+    `Invalid discriminator value, ${params?.discriminator} does not match any of the union members`,
+  unrecognized_keys: ({ params }) =>
+    `Unrecognized keys: ${joinValues(params?.keys ?? [])}`,
+  missing_keys: ({ params }) =>
+    `Missing object properties ${joinValues(params?.keys ?? [])}`,
+  too_small: ({ params }, locale) => {
+    const { minimum, exclusive, type } = params ?? {};
+    switch (type) {
+      case 'string':
+        return `Expect the string length to be greater than or equal to ${minimum}`;
+      case 'array':
+      case 'tuple':
+      case 'set':
+        return `Expect the ${type} to contain at least ${minimum} element(s)`;
+      case 'date':
+        return `Expect the date to be after ${formatDate(minimum, locale)}`;
+      default:
+        return exclusive
+          ? `Expect the value to be greater than ${minimum}`
+          : `Expect the value to be greater than or equal to ${minimum}`;
+    }
+  },
+  too_big: ({ params }, locale) => {
+    const { maximum, exclusive, type } = params ?? {};
+    switch (type) {
+      case 'string':
+        return `Expect the string length to be less than or equal to ${maximum}`;
+      case 'array':
+      case 'tuple':
+      case 'set':
+        return `Expect the ${type} to contain at most ${maximum} element(s)`;
+      case 'date':
+        return `Expect the date to be before ${formatDate(maximum, locale)}`;
+      default:
+        return exclusive
+          ? `Expect the value to be less than ${maximum}`
+          : `Expect the value to be less than or equal to ${maximum}`;
+    }
+  },
+  invalid_length: ({ params }) =>
+    `Expect the ${params?.type} length to equal ${params?.length}`,
+  invalid_string: ({ params }) => {
+    switch (params?.validation) {
+      case 'starts_with':
+        return `Expect the string to start with ${params.needle}`;
+      case 'ends_with':
+        return `Expect the string to end with ${params.needle}`;
+      default:
+        return `Expect the string to match the pattern ${params?.pattern}`;
+    }
+  },
+  not_integer: () => 'Expect the value to be an integer',
+  not_float: () => 'Expect the value to be a floating point number',
+  not_finite: () => 'Expect the value to be a finite number',
+  not_in_range: ({ params }) =>
+    `Expect the value to be greater than or equal to ${params?.minimum} and less than or equal to ${params?.maximum}`,
+  not_multiple_of: ({ params }) =>
+    `Expect the value to be a multiple of ${params?.multipleOf}`,
+  circular_reference: () =>
+    'Circular reference detected, value references itself through its properties',
+  custom: () => 'Invalid value',
+};
+
+/** @internal */
+const frCollections: Record<string, [string, string]> = {
+  array: ['Le tableau', 'du tableau'],
+  tuple: ['Le tuple', 'du tuple'],
+  set: ["L'ensemble", "de l'ensemble"],
+};
+
+/**
+ * French message catalog
+ */
+export const fr: MessageCatalogType = {
+  invalid_type: ({ expected, received, params }) =>
+    params?.instanceOf
+      ? `La valeur doit être une instance de ${expected}`
+      : `La valeur doit être de type ${expected}, ${received} reçu`,
+  invalid_literal: ({ params }) =>
+    `La valeur doit être égale à ${String(params?.expected)}`,
+  invalid_enum_value: ({ params }) =>
+    `La valeur doit être l'une des valeurs ${joinValues(params?.options ?? [])}`,
+  invalid_union: () => "La valeur ne correspond à aucun des membres de l'union",
+  invalid_union_discriminator: ({ params }) =>
+    `Valeur du discriminant invalide, ${params?.discriminator} ne correspond à aucun des membres de l'union`,
+  unrecognized_keys: ({ params }) =>
+    `Clés non reconnues : ${joinValues(params?.keys ?? [])}`,
+  missing_keys: ({ params }) =>
+    `Propriétés manquantes : ${joinValues(params?.keys ?? [])}`,
+  too_small: ({ params }, locale) => {
+    const { minimum, exclusive, type } = params ?? {};
+    switch (type) {
+      case 'string':
+        return `La longueur de la chaîne doit être supérieure ou égale à ${minimum}`;
+      case 'array':
+      case 'tuple':
+      case 'set':
+        return `${frCollections[type][0]} doit contenir au moins ${minimum} élément(s)`;
+      case 'date':
+        return `La date doit être postérieure au ${formatDate(minimum, locale)}`;
+      default:
+        return exclusive
+          ? `La valeur doit être supérieure à ${minimum}`
+          : `La valeur doit être supérieure ou égale à ${minimum}`;
+    }
+  },
+  too_big: ({ params }, locale) => {
+    const { maximum, exclusive, type } = params ?? {};
+    switch (type) {
+      case 'string':
+        return `La longueur de la chaîne doit être inférieure ou égale à ${maximum}`;
+      case 'array':
+      case 'tuple':
+      case 'set':
+        return `${frCollections[type][0]} doit contenir au plus ${maximum} élément(s)`;
+      case 'date':
+        return `La date doit être antérieure au ${formatDate(maximum, locale)}`;
+      default:
+        return exclusive
+          ? `La valeur doit être inférieure à ${maximum}`
+          : `La valeur doit être inférieure ou égale à ${maximum}`;
+    }
+  },
+  invalid_length: ({ params }) =>
+    params?.type === 'string'
+      ? `La longueur de la chaîne doit être égale à ${params?.length}`
+      : `La longueur ${frCollections[params?.type]?.[1] ?? 'de la valeur'} doit être égale à ${params?.length}`,
+  invalid_string: ({ params }) => {
+    switch (params?.validation) {
+      case 'starts_with':
+        return `La chaîne doit commencer par ${params.needle}`;
+      case 'ends_with':
+        return `La chaîne doit se terminer par ${params.needle}`;
+      default:
+        return `La chaîne doit correspondre au motif ${params?.pattern}`;
+    }
+  },
+  not_integer: () => 'La valeur doit être un nombre entier',
+  not_float: () => 'La valeur doit être un nombre à virgule flottante',
+  not_finite: () => 'La valeur doit être un nombre fini',
+  not_in_range: ({ params }) =>
+    `La valeur doit être comprise entre ${params?.minimum} et ${params?.maximum}`,
+  not_multiple_of: ({ params }) =>
+    `La valeur doit être un multiple de ${params?.multipleOf}`,
+  circular_reference: () =>
+    'Référence circulaire détectée, la valeur se référence elle-même à travers ses propriétés',
+  custom: () => 'Valeur invalide',
+};
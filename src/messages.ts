@@ -0,0 +1,78 @@
+import { en, fr } from './locales';
+import { Issue, MessageCatalogType } from './types';
+
+/** @internal */
+const catalogs = new Map<string, MessageCatalogType>([
+  ['en', en],
+  ['fr', fr],
+]);
+
+/** @internal */
+let defaultLocale = 'en';
+
+/**
+ * Register the message catalog of a given locale. Messages of an already
+ * registered locale are replaced by the provided messages, therefore it can
+ * be used to customize bundled catalogs messages.
+ *
+ * ```ts
+ * import { registerCatalog } from '@azlabsjs/built-type';
+ *
+ * registerCatalog('de', {
+ *    invalid_type: ({ expected }) => `Der Wert muss vom Typ ${expected} sein`,
+ * });
+ * ```
+ */
+export function registerCatalog(
+  locale: string,
+  catalog: Partial<MessageCatalogType>
+) {
+  catalogs.set(locale, {
+    ...(catalogs.get(locale) ?? {}),
+    ...(catalog as MessageCatalogType),
+  });
+}
+
+/**
+ * Set the locale used to report issues messages when parse operations
+ * do not provide a locale
+ */
+export function setDefaultLocale(locale: string) {
+  defaultLocale = locale;
+}
+
+/**
+ * Returns the locale used to report issues messages when parse operations
+ * do not provide a locale
+ */
+export function getDefaultLocale() {
+  return defaultLocale;
+}
+
+/**
+ * Returns the message of the provided issue for the given locale. Region
+ * specific locales like `fr-FR` fallback to their language catalog, and
+ * messages missing from the catalog fallback to the english catalog.
+ */
+export function getMessage(issue: Omit<Issue, 'message'>, locale?: string) {
+  const _locale = locale ?? defaultLocale;
+  const fn =
+    catalogs.get(_locale)?.[issue.code] ??
+    catalogs.get(_locale.split('-')[0])?.[issue.code] ??
+    en[issue.code] ??
+    en.custom;
+  return fn(issue, _locale);
+}
+
+/**
+ * @internal
+ *
+ * Creates an issue which message is resolved from the locale catalog, unless
+ * a message is provided
+ */
+export function createIssue(
+  issue: Omit<Issue, 'message'> & { message?: string },
+  locale?: string
+): Issue {
+  return { ...issue, message: issue.message ?? getMessage(issue, locale) };
+}
@@ -0,0 +1,328 @@
+import { TypeAny } from './base';
+import { ContextType, JSONSchemaType, walk } from './json-schema';
+import {
+  ArrayTypeDef,
+  LazyTypeDef,
+  MapTypeDef,
+  ObjectTypeDef,
+  PipeTypeDef,
+  TransformTypeDef,
+  TupleTypeDef,
+  TypeDef,
+  UnionTypeDef,
+  UnknownType,
+} from './types';
+
+/**
+ * @type
+ *
+ * Options used when generating OpenAPI components from built types
+ */
+export type OpenAPIOptionsType = {
+  /**
+   * Policy applied on types that cannot be represented in OpenAPI schemas,
+   * like `bigint`, `symbol`, function or class instance types:
+   * - `throw` throws an error reporting the type and its location
+   * - `any` exports the type as an empty schema, which accepts any value
+   *
+   * Defaults to `throw`
+   */
+  unrepresentable?: 'throw' | 'any';
+};
+
+/**
+ * @type
+ *
+ * OpenAPI 3.1 components object
+ */
+export type OpenAPIComponentsType = {
+  schemas: Record<string, JSONSchemaType>;
+};
+
+/** @internal */
+const SCHEMAS_PREFIX = '#/components/schemas/';
+
+/**
+ * @internal
+ *
+ * Kinds of types that are exported as components when they are shared by
+ * multiple types
+ */
+const SHARED_KINDS = new Set([
+  'object',
+  'record',
+  'tuple',
+  'union',
+  'discriminatedUnion',
+  'enum',
+]);
+
+/** @internal */
+function pascalCase(value: string) {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * @internal
+ *
+ * Returns the types wrapped by a type, with the name segment used to name
+ * them when they are exported as components
+ */
+function childrenOf(_type: TypeAny): [string, TypeAny][] {
+  const def = _type._def as TypeDef;
+  switch (def.kind) {
+    case 'object': {
+      const { shape, catchall } = def as ObjectTypeDef;
+      return [
+        ...(Object.entries(shape) as [string, TypeAny][]),
+        ...(catchall ? [['value', catchall] as [string, TypeAny]] : []),
+      ];
+    }
+    case 'array':
+    case 'set':
+      return [['item', (def as ArrayTypeDef<TypeAny>).item]];
+    case 'tuple': {
+      const { items, rest } = def as TupleTypeDef<TypeAny[], TypeAny>;
+      return [
+        ...items.map((item, i) => [`item${i + 1}`, item] as [string, TypeAny]),
+        ...(rest ? [['rest', rest] as [string, TypeAny]] : []),
+      ];
+    }
+    case 'map':
+    case 'record': {
+      const { key, value } = def as MapTypeDef<TypeAny, TypeAny>;
+      return [
+        ['key', key],
+        ['value', value],
+      ];
+    }
+    case 'union':
+    case 'discriminatedUnion':
+      return (def as UnionTypeDef<TypeAny[]>).options.map((option, i) => [
+        `option${i + 1}`,
+        option,
+      ]);
+    case 'lazy':
+      return [['', (def as LazyTypeDef<TypeAny>).getter()]];
+    case 'transform':
+      return [['', (def as TransformTypeDef<TypeAny>).type]];
+    case 'pipe':
+      return [
+        ['', (def as PipeTypeDef<TypeAny, TypeAny>).in],
+        ['', (def as PipeTypeDef<TypeAny, TypeAny>).out],
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * @internal
+ *
+ * Counts the occurrences of each type reachable from `_type`, and records the
+ * name hint of the first occurrence
+ */
+function collect(
+  _type: TypeAny,
+  hint: string,
+  occurrences: Map<TypeAny, { count: number; hint: string }>
+) {
+  const occurrence = occurrences.get(_type);
+  if (occurrence) {
+    occurrence.count += 1;
+    return;
+  }
+  occurrences.set(_type, { count: 1, hint });
+  for (const [key, child] of childrenOf(_type)) {
+    collect(child, `${hint}${pascalCase(key)}`, occurrences);
+  }
+}
+
+/** @internal */
+function uniqueName(names: Set<string>, hint: string) {
+  let name = hint;
+  for (let i = 2; names.has(name); i++) {
+    name = `${hint}${i}`;
+  }
+  names.add(name);
+  return name;
+}
+
+/**
+ * @internal
+ *
+ * Calls `fn` on each component reference of the schema and replaces the
+ * reference with its result. Annotation values are left untouched, and keys
+ * of `properties` are property names rather than keywords.
+ */
+function mapRefs(
+  value: UnknownType,
+  fn: (name: string) => string,
+  names = false
+): UnknownType {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapRefs(item, fn));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      names
+        ? mapRefs(item, fn)
+        : key === '$ref' &&
+            typeof item === 'string' &&
+            item.startsWith(SCHEMAS_PREFIX)
+          ? `${SCHEMAS_PREFIX}${fn(item.slice(SCHEMAS_PREFIX.length))}`
+          : ['default', 'examples', 'const', 'enum'].includes(key)
+            ? item
+            : mapRefs(item, fn, key === 'properties'),
+    ])
+  );
+}
+
+/**
+ * Generates the OpenAPI 3.1 `components` object of a set of named built
+ * types. Types shared by several schemas, and recursive types created using
+ * `BuiltType._lazy()`, are exported as components referenced using `$ref`.
+ *
+ * Object types read their input using input key names (`propMap`) and
+ * return values using their shape keys. When the values accepted by a type
+ * differ from the values it returns, a `<Name>Request` and a `<Name>Response`
+ * schema are generated instead of a single `<Name>` schema.
+ *
+ * ```ts
+ * import { BuiltType, toOpenAPIComponents } from '@azlabsjs/built-type';
+ *
+ * const address = BuiltType._object({ city: BuiltType._str() });
+ * const user = BuiltType._object(
+ *    { name: BuiltType._str(), address },
+ *    { name: 'full_name' }
+ * );
+ * const order = BuiltType._object({ total: BuiltType._num(), address });
+ *
+ * toOpenAPIComponents({ User: user, Order: order });
+ * // {
+ * //   schemas: {
+ * //     UserRequest: { ... full_name: { type: 'string' } ... },
+ * //     UserResponse: { ... name: { type: 'string' } ... },
+ * //     Order: { ... address: { $ref: '#/components/schemas/UserAddress' } },
+ * //     UserAddress: { type: 'object', ... },
+ * //   }
+ * // }
+ * ```
+ */
+export function toOpenAPIComponents(
+  types: Record<string, TypeAny>,
+  options?: OpenAPIOptionsType
+): OpenAPIComponentsType {
+  const occurrences = new Map<TypeAny, { count: number; hint: string }>();
+  for (const name in types) {
+    collect(types[name], name, occurrences);
+  }
+
+  // named types are exported first, followed by shared and recursive types
+  const definitions: [string, TypeAny][] = Object.entries(types);
+  const refs = new Map<TypeAny, string>();
+  const names = new Set(Object.keys(types));
+  for (const [name, _type] of definitions) {
+    if (!refs.has(_type)) {
+      refs.set(_type, name);
+    }
+  }
+  for (const [_type, { count, hint }] of occurrences) {
+    const { kind } = _type._def as TypeDef;
+    if (
+      !refs.has(_type) &&
+      (kind === 'lazy' || (count > 1 && SHARED_KINDS.has(kind as string)))
+    ) {
+      const name = uniqueName(names, hint);
+      refs.set(_type, name);
+      definitions.push([name, _type]);
+    }
+  }
+
+  const variants = { input: {}, output: {} } as Record<
+    ContextType['io'],
+    Record<string, JSONSchemaType>
+  >;
+  for (const io of ['input', 'output'] as const) {
+    const ctx: ContextType = {
+      draft: '2020-12',
+      unrepresentable: options?.unrepresentable ?? 'throw',
+      io,
+      defs: {},
+      refs,
+      ref: (name) => `${SCHEMAS_PREFIX}${name}`,
+    };
+    for (const [name, _type] of definitions) {
+      // lazy types are defined by the type they resolve to, as the lazy type
+      // itself is referenced by the definition
+      ctx.definition =
+        (_type._def as TypeDef).kind === 'lazy'
+          ? (_type._def as LazyTypeDef<TypeAny>).getter()
+          : _type;
+      variants[io][name] = walk(ctx, ctx.definition, [
+        'components',
+        'schemas',
+        name,
+      ]);
+    }
+  }
+
+  // a schema has request and response variants if its input and output
+  // schemas differ, or if it references a schema having variants
+  const refsOf = (schema: JSONSchemaType) => {
+    const _refs: string[] = [];
+    mapRefs(schema, (name) => {
+      _refs.push(name);
+      return name;
+    });
+    return _refs;
+  };
+  const split = new Set(
+    definitions
+      .map(([name]) => name)
+      .filter(
+        (name) =>
+          JSON.stringify(variants.input[name]) !==
+          JSON.stringify(variants.output[name])
+      )
+  );
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const [name] of definitions) {
+      if (
+        !split.has(name) &&
+        [
+          ...refsOf(variants.input[name]),
+          ...refsOf(variants.output[name]),
+        ].some((ref) => split.has(ref))
+      ) {
+        split.add(name);
+        changed = true;
+      }
+    }
+  }
+
+  const schemas: Record<string, JSONSchemaType> = {};
+  for (const [name] of definitions) {
+    if (!split.has(name)) {
+      schemas[name] = variants.input[name];
+      continue;
+    }
+    for (const [io, suffix] of [
+      ['input', 'Request'],
+      ['output', 'Response'],
+    ] as const) {
+      schemas[`${name}${suffix}`] = mapRefs(variants[io][name], (ref) =>
+        split.has(ref) ? `${ref}${suffix}` : ref
+      ) as JSONSchemaType;
+    }
+  }
+  return { schemas };
+}
@@ -1,7 +1,12 @@
 import { getObjectProperty } from '@azlabsjs/js-object';
 import { TypeAny } from './base';
 import { createPropMapFunc } from './helpers';
+import { prefixIssues } from './issues';
+import { createIssue } from './messages';
 import {
+  Issue,
+  ObjectTypeDef,
+  ParseOptions,
   ParseValueResultType,
   SafeParseReturnType,
   UnknownType,
@@ -14,8 +19,8 @@ import {
  * Type value parsing instance class
  *
  */
-export class TypeParseResult<TData, TError = unknown>
-  implements ParseValueResultType<TData, TError>
+export class TypeParseResult<TData>
+  implements ParseValueResultType<TData, Issue[]>
 {
   /**
    * Returns the parse result errors if any
@@ -45,41 +50,186 @@ export class TypeParseResult<TData, TError = unknown>
   constructor(
     private _data: TData,
     private _hasErrors: boolean,
-    private _errors?: TError,
+    private _errors?: Issue[],
     private _aborted: boolean = false
   ) {}
 }
 
+/**
+ * @internal
+ *
+ * Function used to parse container items
+ */
+type SafeParseFn = <T>(
+  _type: _AbstractType<T>,
+  value: unknown,
+  options?: ParseOptions
+) => SafeParseReturnType<T>;
+
+/** @internal */
+const _safeParse: SafeParseFn = (_type, value, options) =>
+  _type.safeParse(value, options);
+
 /**
  * @internal
  *
  * Creates a function that parses javascript array
  */
-export function createParseArray<T>(t: _AbstractType<T>) {
-  return (items: unknown[]) => {
-    const output: T[] = [];
-    const _errors: { [k: string]: unknown } = {} as UnknownType;
-    let hasErrors = false;
-    let index = 0;
-    (items ?? []).forEach((item: UnknownType) => {
-      const result = t.safeParse(item);
-      if (result.success && result.data) {
-        output.push(result.data as T);
-      } else {
-        hasErrors = true;
-        _errors[`*.${index}`] = result.errors;
-      }
-      index += 1;
-    });
-    return new TypeParseResult(
-      output,
-      hasErrors,
-      hasErrors ? _errors : undefined,
-      false
+export function createParseArray<T>(
+  t: _AbstractType<T>,
+  tParseFn: SafeParseFn = _safeParse
+) {
+  return (items: unknown[], options?: ParseOptions) =>
+    createArrayResult<T>(
+      (items ?? []).map((item) => tParseFn(t, item, options))
     );
-  };
 }
 
+/**
+ * @internal
+ *
+ * Creates a function that asynchronously parses javascript array items
+ * concurrently
+ */
+export function createParseArrayAsync<T>(t: _AbstractType<T>) {
+  return async (items: unknown[], options?: ParseOptions) =>
+    createArrayResult<T>(
+      await Promise.all(
+        (items ?? []).map((item) => t.safeParseAsync(item, options))
+      )
+    );
+}
+
+/** @internal */
+function createArrayResult<T>(results: SafeParseReturnType<T>[]) {
+  const output: T[] = [];
+  const _errors: Issue[] = [];
+  let hasErrors = false;
+  results.forEach((result, index) => {
+    if (result.success) {
+      output.push(result.data as T);
+    } else {
+      hasErrors = true;
+      _errors.push(...prefixIssues(result.errors, index));
+    }
+  });
+  return new TypeParseResult(
+    output,
+    hasErrors,
+    hasErrors ? _errors : undefined,
+    false
+  );
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that parses javascript array using item position
+ * types. Items after the positional types are parsed using the `rest` type.
+ */
+export function createParseTuple<T extends unknown[]>(
+  items: readonly _AbstractType<UnknownType>[],
+  rest?: _AbstractType<UnknownType>
+) {
+  return (values: unknown[], options?: ParseOptions) =>
+    values === null || typeof values === 'undefined'
+      ? createNilResult<T>(values)
+      : createTupleResult<T>(
+          values.length,
+          tupleItems(items, values, rest).map(([t, item, index]) => [
+            t.safeParse(item, options),
+            index,
+          ])
+        );
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that asynchronously parses javascript array using item
+ * position types.
+ */
+export function createParseTupleAsync<T extends unknown[]>(
+  items: readonly _AbstractType<UnknownType>[],
+  rest?: _AbstractType<UnknownType>
+) {
+  return async (values: unknown[], options?: ParseOptions) =>
+    values === null || typeof values === 'undefined'
+      ? createNilResult<T>(values)
+      : createTupleResult<T>(
+          values.length,
+          await Promise.all(
+            tupleItems(items, values, rest).map(
+              async ([t, item, index]) =>
+                [await t.safeParseAsync(item, options), index] as const
+            )
+          )
+        );
+}
+
+/** @internal */
+function tupleItems(
+  items: readonly _AbstractType<UnknownType>[],
+  values: unknown[],
+  rest?: _AbstractType<UnknownType>
+) {
+  const output: [_AbstractType<UnknownType>, unknown, number][] = [];
+  // omitted trailing items are parsed as well, for their default values to
+  // be applied
+  for (let index = 0; index < Math.max(values.length, items.length); index++) {
+    const t = index < items.length ? items[index] : rest;
+    // Tuple length is enforced by the tuple constraint, therefore we
+    // simply ignore items that do not have a matching type
+    if (t) {
+      output.push([t, values[index], index]);
+    }
+  }
+  return output;
+}
+
+/** @internal */
+function createNilResult<T>(value: null | undefined) {
+  return new TypeParseResult(value as T, false, undefined, false);
+}
+
+/** @internal */
+function createTupleResult<T extends unknown[]>(
+  length: number,
+  results: (readonly [SafeParseReturnType<unknown>, number])[]
+) {
+  const output: unknown[] = [];
+  const _errors: Issue[] = [];
+  let hasErrors = false;
+  for (const [result, index] of results) {
+    if (result.success) {
+      output[index] = result.data;
+    } else {
+      hasErrors = true;
+      _errors.push(...prefixIssues(result.errors, index));
+    }
+  }
+  // omitted trailing items without default values are not added to the output
+  while (
+    output.length > length &&
+    typeof output[output.length - 1] === 'undefined'
+  ) {
+    output.pop();
+  }
+  return new TypeParseResult(
+    output as T,
+    hasErrors,
+    hasErrors ? _errors : undefined,
+    false
+  );
+}
+
+/**
+ * @internal
+ *
+ * Unknown object keys parsing parameters
+ */
+type UnknownKeysParams = Pick<ObjectTypeDef, 'unknownKeys' | 'catchall'>;
+
 /**
  * @internal
  *
@@ -87,70 +237,324 @@ export function createParseArray<T>(t: _AbstractType<T>) {
  */
 export function createParseObject<T = object>(
   createProp: ReturnType<typeof createPropMapFunc>,
-  tParseFn: (_type: TypeAny, value: unknown) => SafeParseReturnType<T>,
-  root = 'root$'
+  tParseFn: (
+    _type: TypeAny,
+    value: unknown,
+    options?: ParseOptions
+  ) => SafeParseReturnType<T>,
+  unknownKeys: UnknownKeysParams = {}
 ) {
-  return (value: UnknownType) => {
-    // TODO: Handle async parsing
+  return (value: UnknownType, options?: ParseOptions) => {
     const propMap = createProp();
-    const _instance = new Object() as UnknownType;
-    const _errors: { [k: string]: unknown } = {} as UnknownType;
-    let hasErrors = false;
-    for (const prop of propMap) {
-      const result = tParseFn(
-        prop._type,
-        getObjectProperty(value, prop.inputKey)
-      );
-      if (result.success) {
-        _instance[prop.outputKey] = result.data;
-      } else {
-        hasErrors = true;
-        _errors[`${root}.${prop.inputKey}`] = result.errors;
-      }
-    }
-    return new TypeParseResult(
-      _instance as T,
-      hasErrors,
-      hasErrors ? _errors : undefined,
-      false
+    const keys = getUnknownKeys(value, propMap);
+    return createObjectResult<T>(
+      propMap,
+      propMap.map((prop) =>
+        tParseFn(prop._type, getObjectProperty(value, prop.inputKey), options)
+      ),
+      keys,
+      createUnknownKeysEntries(value, keys, unknownKeys, (_type, v) =>
+        tParseFn(_type, v, options)
+      ),
+      unknownKeys,
+      options
+    );
+  };
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that asynchronously parses a complex user defined
+ * object, parsing object properties concurrently
+ */
+export function createParseObjectAsync<T = object>(
+  createProp: ReturnType<typeof createPropMapFunc>,
+  unknownKeys: UnknownKeysParams = {}
+) {
+  return async (value: UnknownType, options?: ParseOptions) => {
+    const propMap = createProp();
+    const keys = getUnknownKeys(value, propMap);
+    const [results, entries] = await Promise.all([
+      Promise.all(
+        propMap.map((prop) =>
+          prop._type.safeParseAsync(
+            getObjectProperty(value, prop.inputKey),
+            options
+          )
+        )
+      ),
+      Promise.all(
+        createUnknownKeysEntries(value, keys, unknownKeys, (_type, v) =>
+          _type.safeParseAsync(v, options)
+        ).map(async ([k, result]) => [k, await result] as const)
+      ),
+    ]);
+    return createObjectResult<T>(
+      propMap,
+      results,
+      keys,
+      entries,
+      unknownKeys,
+      options
     );
   };
 }
 
+/**
+ * @internal
+ *
+ * Returns the value keys that are not bound to object properties
+ */
+function getUnknownKeys(
+  value: UnknownType,
+  propMap: ReturnType<ReturnType<typeof createPropMapFunc>>
+) {
+  // Nested input keys are bound to their top level property
+  const keys = new Set(propMap.map((prop) => prop.inputKey.split('.')[0]));
+  return Object.keys(value ?? {}).filter((k) => !keys.has(k));
+}
+
+/**
+ * @internal
+ *
+ * Creates the parse results of unknown keys that are kept in the output object,
+ * which are values parsed by the catchall type or passed through values
+ */
+function createUnknownKeysEntries<R>(
+  value: UnknownType,
+  keys: string[],
+  { unknownKeys, catchall }: UnknownKeysParams,
+  tParseFn: (_type: TypeAny, value: unknown) => R
+): (readonly [string, R | SafeParseReturnType<unknown>])[] {
+  if (catchall) {
+    return keys.map((k) => [k, tParseFn(catchall, value[k])] as const);
+  }
+  return unknownKeys === 'passthrough'
+    ? keys.map(
+        (k) =>
+          [k, { success: true, errors: undefined, data: value[k] }] as const
+      )
+    : [];
+}
+
+/** @internal */
+function createObjectResult<T>(
+  propMap: ReturnType<ReturnType<typeof createPropMapFunc>>,
+  results: SafeParseReturnType<unknown>[],
+  keys: string[] = [],
+  entries: (readonly [string, SafeParseReturnType<unknown>])[] = [],
+  { unknownKeys, catchall }: UnknownKeysParams = {},
+  options?: ParseOptions
+) {
+  const _instance = new Object() as UnknownType;
+  const _errors: Issue[] = [];
+  let hasErrors = false;
+  propMap.forEach((prop, index) => {
+    const result = results[index];
+    if (result.success) {
+      _instance[prop.outputKey] = result.data;
+    } else {
+      hasErrors = true;
+      _errors.push(...prefixIssues(result.errors, ...prop.inputKey.split('.')));
+    }
+  });
+  for (const [k, result] of entries) {
+    if (result.success) {
+      // Unknown keys come from the parsed value, so we use `defineProperty`
+      // to prevent keys like `__proto__` from modifying the output prototype
+      Object.defineProperty(_instance, k, {
+        value: result.data,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    } else {
+      hasErrors = true;
+      _errors.push(...prefixIssues(result.errors, k));
+    }
+  }
+  if (!catchall && unknownKeys === 'strict' && keys.length !== 0) {
+    hasErrors = true;
+    _errors.push(
+      createIssue(
+        { code: 'unrecognized_keys', path: [], params: { keys } },
+        options?.locale
+      )
+    );
+  }
+  return new TypeParseResult(
+    _instance as T,
+    hasErrors,
+    hasErrors ? _errors : undefined,
+    false
+  );
+}
+
 /**
  * @internal
  *
  * Creates a function that parses a javascript map
  */
 export function createParseMap<TKey, TValue>(
+  _key: _AbstractType<TKey>,
+  _value: _AbstractType<TValue>,
+  tParseFn: SafeParseFn = _safeParse
+) {
+  // We first check if items variable is define before
+  // setting map values
+  return (items: Map<UnknownType, UnknownType>, options?: ParseOptions) =>
+    createMapResult<TKey, TValue>(
+      Array.from(items ? items.entries() : []).map(([k, item]) => [
+        k,
+        tParseFn(_key, k, options),
+        tParseFn(_value, item, options),
+      ])
+    );
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that asynchronously parses a javascript map, parsing
+ * map entries concurrently
+ */
+export function createParseMapAsync<TKey, TValue>(
+  _key: _AbstractType<TKey>,
+  _value: _AbstractType<TValue>
+) {
+  return async (items: Map<UnknownType, UnknownType>, options?: ParseOptions) =>
+    createMapResult<TKey, TValue>(
+      await Promise.all(
+        Array.from(items ? items.entries() : []).map(
+          async ([k, item]) =>
+            [
+              k,
+              await _key.safeParseAsync(k, options),
+              await _value.safeParseAsync(item, options),
+            ] as const
+        )
+      )
+    );
+}
+
+/** @internal */
+function createMapResult<TKey, TValue>(
+  results: (readonly [
+    unknown,
+    SafeParseReturnType<TKey>,
+    SafeParseReturnType<TValue>,
+  ])[]
+) {
+  const _instance: Map<TKey, TValue> = new Map();
+  const _errors: Issue[] = [];
+  let hasErrors = false;
+  results.forEach(([, __key, __value], index) => {
+    if (__key.success && __value.success) {
+      _instance.set(__key.data as TKey, __value.data as TValue);
+    } else {
+      hasErrors = true;
+      // Map keys are not limited to primitive values, therefore map entries
+      // issues are located using the entry index
+      _errors.push(
+        ...prefixIssues(__key.errors, index, 'key'),
+        ...prefixIssues(__value.errors, index, 'value')
+      );
+    }
+  });
+  return new TypeParseResult(
+    _instance,
+    hasErrors,
+    hasErrors ? _errors : undefined,
+    false
+  );
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that parses a plain javascript object used as a
+ * dictionary. Each object own key is parsed using the key type and each
+ * property value is parsed using the value type.
+ */
+export function createParseRecord<TKey extends string, TValue>(
+  _key: _AbstractType<TKey>,
+  _value: _AbstractType<TValue>
+) {
+  return (value: Record<string, unknown>, options?: ParseOptions) =>
+    value === null || typeof value === 'undefined'
+      ? createNilResult<Record<TKey, TValue>>(value)
+      : createRecordResult<TKey, TValue>(
+          Object.keys(value).map((k) => [
+            k,
+            _key.safeParse(k, options),
+            _value.safeParse(value[k], options),
+          ])
+        );
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that asynchronously parses a plain javascript object
+ * used as a dictionary, parsing object entries concurrently
+ */
+export function createParseRecordAsync<TKey extends string, TValue>(
   _key: _AbstractType<TKey>,
   _value: _AbstractType<TValue>
 ) {
-  return (items: Map<UnknownType, UnknownType>) => {
-    const _instance: Map<TKey, TValue> = new Map();
-    const _errors = new Map<UnknownType, unknown>();
-    let hasErrors = false;
-    // We first check if items variable is define before
-    // setting map values
-    if (items) {
-      items.forEach((item, k) => {
-        const __key = _key.safeParse(k);
-        const __value = _value.safeParse(item);
-        if (__key.success && __key.data && __value.success && __value.data) {
-          _instance.set(__key.data, __value.data);
-        } else {
-          hasErrors = true;
-          _errors.set(k, [__key.errors, __value.errors]);
-        }
+  return async (value: Record<string, unknown>, options?: ParseOptions) =>
+    value === null || typeof value === 'undefined'
+      ? createNilResult<Record<TKey, TValue>>(value)
+      : createRecordResult<TKey, TValue>(
+          await Promise.all(
+            Object.keys(value).map(
+              async (k) =>
+                [
+                  k,
+                  await _key.safeParseAsync(k, options),
+                  await _value.safeParseAsync(value[k], options),
+                ] as const
+            )
+          )
+        );
+}
+
+/** @internal */
+function createRecordResult<TKey extends string, TValue>(
+  results: (readonly [
+    string,
+    SafeParseReturnType<TKey>,
+    SafeParseReturnType<TValue>,
+  ])[]
+) {
+  const _instance = {} as Record<TKey, TValue>;
+  const _errors: Issue[] = [];
+  let hasErrors = false;
+  for (const [k, __key, __value] of results) {
+    if (__key.success && __value.success) {
+      // We use `defineProperty` to prevent keys like `__proto__` from
+      // modifying the output object prototype
+      Object.defineProperty(_instance, __key.data as TKey, {
+        value: __value.data,
+        enumerable: true,
+        writable: true,
+        configurable: true,
       });
+    } else {
+      hasErrors = true;
+      _errors.push(
+        ...prefixIssues(__key.errors, k),
+        ...prefixIssues(__value.errors, k)
+      );
     }
-    return new TypeParseResult(
-      _instance,
-      hasErrors,
-      hasErrors ? _errors : undefined,
-      false
-    );
-  };
+  }
+  return new TypeParseResult(
+    _instance,
+    hasErrors,
+    hasErrors ? _errors : undefined,
+    false
+  );
 }
 
 /**
@@ -159,30 +563,210 @@ export function createParseMap<TKey, TValue>(
  * Creates a function that parses a javascript set to user defined
  * Set type
  */
-export function createParseSet<TValue>(t: _AbstractType<TValue>) {
-  return (items: Set<UnknownType>) => {
-    const _instance: Set<TValue> = new Set();
-    const _errors: { [k: string]: unknown } = {} as UnknownType;
-    let hasErrors = false;
-    let index = 0;
-    // Checks if the input set is defines before proceeding
-    if (items) {
-      items.forEach((item: UnknownType) => {
-        const result = t.safeParse(item);
-        if (result.success) {
-          _instance.add(result.data as TValue);
-        } else {
-          hasErrors = true;
-          _errors[`*.${index}`] = result.errors;
-        }
-        index += 1;
-      });
+export function createParseSet<TValue>(
+  t: _AbstractType<TValue>,
+  tParseFn: SafeParseFn = _safeParse
+) {
+  // Checks if the input set is defines before proceeding
+  return (items: Set<UnknownType>, options?: ParseOptions) =>
+    createSetResult<TValue>(
+      Array.from(items ?? []).map((item) => tParseFn(t, item, options))
+    );
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that asynchronously parses a javascript set, parsing
+ * set items concurrently
+ */
+export function createParseSetAsync<TValue>(t: _AbstractType<TValue>) {
+  return async (items: Set<UnknownType>, options?: ParseOptions) =>
+    createSetResult<TValue>(
+      await Promise.all(
+        Array.from(items ?? []).map((item) => t.safeParseAsync(item, options))
+      )
+    );
+}
+
+/** @internal */
+function createSetResult<TValue>(results: SafeParseReturnType<TValue>[]) {
+  const _instance: Set<TValue> = new Set();
+  const _errors: Issue[] = [];
+  let hasErrors = false;
+  results.forEach((result, index) => {
+    if (result.success) {
+      _instance.add(result.data as TValue);
+    } else {
+      hasErrors = true;
+      _errors.push(...prefixIssues(result.errors, index));
+    }
+  });
+  return new TypeParseResult(
+    _instance,
+    hasErrors,
+    hasErrors ? _errors : undefined,
+    false
+  );
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that parses a value using the first union member
+ * that successfully parses it.
+ */
+export function createParseUnion<T>(
+  members: readonly _AbstractType<UnknownType>[]
+) {
+  return (value: unknown, options?: ParseOptions) => {
+    const results: SafeParseReturnType<unknown>[] = [];
+    for (const member of members) {
+      const result = member.safeParse(value, options);
+      if (result.success) {
+        return new TypeParseResult(result.data as T, false, undefined, false);
+      }
+      results.push(result);
+    }
+    return createUnionErrorResult<T>(results, options);
+  };
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that asynchronously parses a value using union members
+ * concurrently. The first member, in declaration order, that successfully
+ * parses the value is used.
+ */
+export function createParseUnionAsync<T>(
+  members: readonly _AbstractType<UnknownType>[]
+) {
+  return async (value: unknown, options?: ParseOptions) => {
+    const results = await Promise.all(
+      members.map((member) => member.safeParseAsync(value, options))
+    );
+    const result = results.find((r) => r.success);
+    return result
+      ? new TypeParseResult(result.data as T, false, undefined, false)
+      : createUnionErrorResult<T>(results, options);
+  };
+}
+
+/** @internal */
+function createUnionErrorResult<T>(
+  results: SafeParseReturnType<unknown>[],
+  options?: ParseOptions
+) {
+  // Each failing branch issues are kept in the issue parameters, so that
+  // developpers are able to find out why the branch was not selected
+  const issue = createIssue(
+    {
+      code: 'invalid_union',
+      path: [],
+      params: { unionErrors: results.map((result) => result.errors ?? []) },
+    },
+    options?.locale
+  );
+  return new TypeParseResult(undefined as T, true, [issue], false);
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that parses a value using the union member which
+ * discriminator property accepts the value discriminator property.
+ */
+export function createParseDiscriminatedUnion<T>(
+  discriminator: string,
+  members: readonly _AbstractType<UnknownType, ObjectTypeDef>[]
+) {
+  return (value: unknown, options?: ParseOptions) => {
+    const results: SafeParseReturnType<unknown>[] = [];
+    for (const member of members) {
+      const { shape, propMap } = member._def;
+      const inputKey = propMap[discriminator] ?? discriminator;
+      const key = shape[discriminator].safeParse(
+        getObjectProperty(value, inputKey),
+        options
+      );
+      if (!key.success) {
+        results.push(key);
+        continue;
+      }
+      // Once the discriminator matches, the union member is the only
+      // branch used to parse the value
+      return createDiscriminatedResult<T>(member.safeParse(value, options));
+    }
+    return createDiscriminatorErrorResult<T>(
+      discriminator,
+      members[0]?._def.propMap[discriminator] ?? discriminator,
+      results,
+      options
+    );
+  };
+}
+
+/**
+ * @internal
+ *
+ * Creates a function that asynchronously parses a value using the union
+ * member which discriminator property accepts the value discriminator property.
+ */
+export function createParseDiscriminatedUnionAsync<T>(
+  discriminator: string,
+  members: readonly _AbstractType<UnknownType, ObjectTypeDef>[]
+) {
+  return async (value: unknown, options?: ParseOptions) => {
+    const results: SafeParseReturnType<unknown>[] = [];
+    for (const member of members) {
+      const { shape, propMap } = member._def;
+      const inputKey = propMap[discriminator] ?? discriminator;
+      const key = await shape[discriminator].safeParseAsync(
+        getObjectProperty(value, inputKey),
+        options
+      );
+      if (!key.success) {
+        results.push(key);
+        continue;
+      }
+      return createDiscriminatedResult<T>(
+        await member.safeParseAsync(value, options)
+      );
     }
-    return new TypeParseResult(
-      _instance,
-      hasErrors,
-      hasErrors ? _errors : undefined,
-      false
+    return createDiscriminatorErrorResult<T>(
+      discriminator,
+      members[0]?._def.propMap[discriminator] ?? discriminator,
+      results,
+      options
     );
   };
 }
+
+/** @internal */
+function createDiscriminatedResult<T>(result: SafeParseReturnType<unknown>) {
+  return result.success
+    ? new TypeParseResult(result.data as T, false, undefined, false)
+    : new TypeParseResult(undefined as T, true, result.errors, false);
+}
+
+/** @internal */
+function createDiscriminatorErrorResult<T>(
+  discriminator: string,
+  inputKey: string,
+  results: SafeParseReturnType<unknown>[],
+  options?: ParseOptions
+) {
+  const issue = createIssue(
+    {
+      code: 'invalid_union_discriminator',
+      path: inputKey.split('.'),
+      params: {
+        discriminator,
+        unionErrors: results.map((result) => result.errors ?? []),
+      },
+    },
+    options?.locale
+  );
+  return new TypeParseResult(undefined as T, true, [issue], false);
+}
@@ -0,0 +1,776 @@
+import { TypeAny, createEnumType } from './base';
+import { BuiltType } from './built-type';
+import { NoConstraint } from './type-constraints';
+import {
+  ArrayTypeDef,
+  ClassType,
+  ConstraintInterface,
+  ConstraintRuleType,
+  DiscriminatedUnionTypeDef,
+  EnumTypeDef,
+  FunctionTypeDef,
+  InstanceOfTypeDef,
+  LazyTypeDef,
+  LiteralTypeDef,
+  LiteralValueType,
+  MapTypeDef,
+  ObjectTypeDef,
+  PipeTypeDef,
+  TransformTypeDef,
+  TupleTypeDef,
+  TypeDef,
+  TypeKindType,
+  UnionTypeDef,
+  UnknownType,
+} from './types';
+
+/**
+ * @type
+ *
+ * Version of the descriptors created by `serialize()`
+ */
+export type TypeDescriptorVersionType = 1;
+
+/**
+ * @type
+ *
+ * Serialized constraint rule. Custom rules reference the function they were
+ * registered with using `registerFunction()`.
+ */
+export type RuleDescriptorType = {
+  name: string;
+  params?: Record<string, UnknownType>;
+  message?: string;
+  path?: (string | number)[];
+  code?: string;
+  refinement?: { method: 'refine' | 'superRefine' | 'refineAsync'; fn: string };
+};
+
+/**
+ * @type
+ *
+ * Serialized default or catch value. Values are either provided as JSON
+ * values, or as the name of a function registered using `registerFunction()`.
+ */
+export type ValueDescriptorType = { value: UnknownType } | { fn: string };
+
+/**
+ * @type
+ *
+ * Serialized built type. Besides the common properties, each kind provides
+ * the properties required to recreate the type, like `item` for arrays or
+ * `shape` and `propMap` for objects.
+ */
+export type TypeNodeDescriptorType = {
+  kind: TypeKindType;
+  description?: string;
+  examples?: UnknownType[];
+  coerce?: boolean;
+  nullable?: boolean;
+  optional?: boolean;
+  rules?: RuleDescriptorType[];
+  refinements?: RuleDescriptorType[];
+  default?: ValueDescriptorType;
+  catch?: ValueDescriptorType;
+  [k: string]: UnknownType;
+};
+
+/**
+ * @type
+ *
+ * Versioned JSON descriptor of a built type, created using `serialize()`.
+ * Lazy types are serialized as references to `defs` entries.
+ */
+export type TypeDescriptorType = {
+  version: TypeDescriptorVersionType;
+  type: TypeNodeDescriptorType;
+  defs?: Record<string, TypeNodeDescriptorType>;
+};
+
+/** @internal */
+type SerializeContextType = {
+  defs: Record<string, TypeNodeDescriptorType>;
+  refs: Map<TypeAny, string>;
+};
+
+/** @internal */
+type ReviveContextType = {
+  descriptor: TypeDescriptorType;
+  refs: Map<string, TypeAny>;
+};
+
+/** @internal */
+type FunctionAnyType = (...args: UnknownType[]) => UnknownType;
+
+/** @internal */
+const VERSION: TypeDescriptorVersionType = 1;
+
+/**
+ * @internal
+ *
+ * Functions registered using `registerFunction()`
+ */
+const functions = new Map<string, FunctionAnyType | ClassType>();
+
+/**
+ * @internal
+ *
+ * Constraint methods used to recreate built-in rules, with the function
+ * returning the method arguments from the rule parameters
+ */
+const RULES: Record<
+  string,
+  [string, (params: Record<string, UnknownType>) => UnknownType[]]
+> = {
+  min: ['min', (params) => [params.minimum]],
+  max: ['max', (params) => [params.maximum]],
+  between: ['between', (params) => [params.minimum, params.maximum]],
+  positive: ['positive', () => []],
+  negative: ['negative', () => []],
+  int: ['int', () => []],
+  float: ['float', () => []],
+  finite: ['finite', () => []],
+  multipleOf: ['multipleOf', (params) => [params.multipleOf]],
+  min_len: ['minLength', (params) => [params.minimum]],
+  max_len: ['maxLength', (params) => [params.maximum]],
+  len: ['length', (params) => [params.length]],
+  length: ['length', (params) => [params.length]],
+  not_empty: ['notEmpty', () => []],
+  pattern: [
+    'pattern',
+    (params) => [new RegExp(params.pattern, params.flags ?? '')],
+  ],
+  starts_with: ['startsWith', (params) => [params.needle]],
+  ends_with: ['endsWith', (params) => [params.needle]],
+  nonempty: ['nonempty', () => []],
+  min_date: ['min', (params) => [params.minimum]],
+  max_date: ['max', (params) => [params.maximum]],
+  required: ['required', (params) => [params.keys]],
+};
+
+/**
+ * Register a function that can be referenced by serialized built types.
+ * Custom rules added using `refine()`, `superRefine()` or `refineAsync()`,
+ * transform functions, class constructors of instance types and default or
+ * catch functions must be registered, using the same name, wherever built
+ * types are serialized and revived.
+ *
+ * ```ts
+ * import { registerFunction } from '@azlabsjs/built-type';
+ *
+ * const isEven = (value: number) => value % 2 === 0;
+ *
+ * registerFunction('isEven', isEven);
+ * ```
+ */
+export function registerFunction(
+  name: string,
+  fn: FunctionAnyType | ClassType
+) {
+  functions.set(name, fn);
+}
+
+/** @internal */
+function location(pointer: string[]) {
+  return `#/${pointer.join('/')}`;
+}
+
+/** @internal */
+function functionName(
+  fn: FunctionAnyType | ClassType,
+  construct: string,
+  pointer: string[]
+) {
+  for (const [name, registered] of functions) {
+    if (registered === fn) {
+      return name;
+    }
+  }
+  throw new Error(
+    `${construct} cannot be serialized as it is not registered using registerFunction(), at ${location(pointer)}`
+  );
+}
+
+/** @internal */
+function getFunction(name: string, pointer: string[]) {
+  const fn = functions.get(name);
+  if (!fn) {
+    throw new Error(
+      `Function ${name} is not registered using registerFunction(), at ${location(pointer)}`
+    );
+  }
+  return fn as FunctionAnyType;
+}
+
+/**
+ * @internal
+ *
+ * Converts values to JSON values. `bigint`, `Date`, `Set`, `Map` and
+ * `undefined` values are converted to tagged objects.
+ */
+function encode(value: UnknownType, pointer: string[]): UnknownType {
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return value;
+    case 'bigint':
+      return { $bigint: value.toString() };
+    case 'undefined':
+      return { $undefined: true };
+  }
+  if (value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (value instanceof Set) {
+    return { $set: encode(Array.from(value), pointer) };
+  }
+  if (value instanceof Map) {
+    return { $map: encode(Array.from(value.entries()), pointer) };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => encode(item, pointer));
+  }
+  if (Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, encode(v, pointer)])
+    );
+  }
+  throw new Error(
+    `${typeof value === 'object' ? value.constructor?.name : typeof value} value cannot be serialized, at ${location(pointer)}`
+  );
+}
+
+/** @internal */
+function decode(value: UnknownType): UnknownType {
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (typeof value.$bigint === 'string') {
+    return BigInt(value.$bigint);
+  }
+  if (value.$undefined === true) {
+    return undefined;
+  }
+  if (typeof value.$date === 'string') {
+    return new Date(value.$date);
+  }
+  if (Array.isArray(value.$set)) {
+    return new Set(decode(value.$set));
+  }
+  if (Array.isArray(value.$map)) {
+    return new Map(decode(value.$map));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, decode(v)])
+  );
+}
+
+/** @internal */
+function serializeRules(
+  rules: ConstraintRuleType[],
+  pointer: string[]
+): RuleDescriptorType[] {
+  return rules.map(({ name, params, message, path, code, refinement }) => ({
+    name,
+    ...(params ? { params: encode(params, pointer) } : {}),
+    ...(message ? { message } : {}),
+    ...(refinement
+      ? {
+          ...(path ? { path } : {}),
+          ...(code ? { code } : {}),
+          refinement: {
+            method: refinement.method,
+            fn: functionName(refinement.fn, `Rule ${name}`, pointer),
+          },
+        }
+      : {}),
+  }));
+}
+
+/** @internal */
+function serializeValue(
+  construct: string,
+  fn: FunctionAnyType,
+  _static: { value: UnknownType } | undefined,
+  pointer: string[]
+): ValueDescriptorType {
+  // static values are serialized instead of the function created from them
+  return _static
+    ? { value: encode(_static.value, pointer) }
+    : { fn: functionName(fn, construct, pointer) };
+}
+
+/** @internal */
+function serializeKind(
+  ctx: SerializeContextType,
+  _type: TypeAny,
+  pointer: string[]
+): Record<string, UnknownType> {
+  const def = _type._def as TypeDef;
+  switch (def.kind) {
+    case 'string':
+    case 'number':
+    case 'bigint':
+    case 'boolean':
+    case 'symbol':
+    case 'date':
+    case 'null':
+    case 'undefined':
+    case 'mixed':
+      return {};
+    case 'array':
+    case 'set':
+      return {
+        item: node(ctx, (def as ArrayTypeDef<TypeAny>).item, [
+          ...pointer,
+          'item',
+        ]),
+      };
+    case 'tuple': {
+      const { items, rest } = def as TupleTypeDef<TypeAny[], TypeAny>;
+      return {
+        items: items.map((item, i) =>
+          node(ctx, item, [...pointer, 'items', String(i)])
+        ),
+        ...(rest ? { rest: node(ctx, rest, [...pointer, 'rest']) } : {}),
+      };
+    }
+    case 'map':
+    case 'record': {
+      const { key, value } = def as MapTypeDef<TypeAny, TypeAny>;
+      return {
+        key: node(ctx, key, [...pointer, 'key']),
+        value: node(ctx, value, [...pointer, 'value']),
+      };
+    }
+    case 'object': {
+      const { shape, propMap, unknownKeys, catchall } = def as ObjectTypeDef;
+      return {
+        shape: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [
+            key,
+            node(ctx, value as TypeAny, [...pointer, 'shape', key]),
+          ])
+        ),
+        propMap,
+        ...(unknownKeys ? { unknownKeys } : {}),
+        ...(catchall
+          ? {
+              catchall: node(ctx, catchall as TypeAny, [
+                ...pointer,
+                'catchall',
+              ]),
+            }
+          : {}),
+      };
+    }
+    case 'union':
+    case 'discriminatedUnion':
+      return {
+        ...(def.kind === 'discriminatedUnion'
+          ? {
+              discriminator: (def as DiscriminatedUnionTypeDef<string, []>)
+                .discriminator,
+            }
+          : {}),
+        options: (def as UnionTypeDef<TypeAny[]>).options.map((option, i) =>
+          node(ctx, option, [...pointer, 'options', String(i)])
+        ),
+      };
+    case 'literal': {
+      const { value } = def as LiteralTypeDef<LiteralValueType>;
+      if (typeof value === 'symbol') {
+        throw new Error(
+          `symbol literal cannot be serialized, at ${location(pointer)}`
+        );
+      }
+      return { value: encode(value, pointer) };
+    }
+    case 'enum':
+      return { entries: (def as EnumTypeDef<string | number>).entries };
+    case 'instanceOf':
+      return {
+        ctor: functionName(
+          (def as InstanceOfTypeDef<ClassType>).ctor,
+          'Class constructor',
+          pointer
+        ),
+      };
+    case 'function': {
+      const { args, returns } = def as FunctionTypeDef<TypeAny, TypeAny>;
+      return {
+        args: node(ctx, args, [...pointer, 'args']),
+        returns: node(ctx, returns, [...pointer, 'returns']),
+      };
+    }
+    case 'lazy': {
+      let name = ctx.refs.get(_type);
+      if (!name) {
+        name = `Type${ctx.refs.size + 1}`;
+        // the reference is registered before serializing the resolved type,
+        // so that recursive types reference the definition
+        ctx.refs.set(_type, name);
+        ctx.defs[name] = node(ctx, (def as LazyTypeDef<TypeAny>).getter(), [
+          'defs',
+          name,
+        ]);
+      }
+      return { ref: name };
+    }
+    case 'transform': {
+      const { type, transform } = def as TransformTypeDef<TypeAny>;
+      return {
+        type: node(ctx, type, [...pointer, 'type']),
+        fn: functionName(transform, 'Transform function', pointer),
+      };
+    }
+    case 'pipe': {
+      const { in: _in, out } = def as PipeTypeDef<TypeAny, TypeAny>;
+      return {
+        in: node(ctx, _in, [...pointer, 'in']),
+        out: node(ctx, out, [...pointer, 'out']),
+      };
+    }
+    default:
+      throw new Error(
+        `${def.kind ? `${def.kind} type` : 'Custom type'} cannot be serialized, at ${location(pointer)}`
+      );
+  }
+}
+
+/** @internal */
+function node(
+  ctx: SerializeContextType,
+  _type: TypeAny,
+  pointer: string[]
+): TypeNodeDescriptorType {
+  const def = _type._def as TypeDef;
+  const { constraint } = def;
+  // tuple rules are created by the tuple type itself
+  const rules = (constraint.rules ?? []).filter(
+    ({ name }) =>
+      def.kind !== 'tuple' || !['length', 'min', 'max'].includes(name)
+  );
+  return {
+    kind: def.kind as TypeKindType,
+    ...serializeKind(ctx, _type, pointer),
+    ...(def.description ? { description: def.description } : {}),
+    ...(def.examples
+      ? { examples: def.examples.map((example) => encode(example, pointer)) }
+      : {}),
+    ...(def.coerce ? { coerce: true } : {}),
+    ...(constraint.acceptsNull ? { nullable: true } : {}),
+    ...(constraint.acceptsUndefined ? { optional: true } : {}),
+    ...(rules.length !== 0 ? { rules: serializeRules(rules, pointer) } : {}),
+    ...(def.refinements?.rules?.length
+      ? { refinements: serializeRules(def.refinements.rules, pointer) }
+      : {}),
+    ...(def.defaultValue
+      ? {
+          default: serializeValue(
+            'Default function',
+            def.defaultValue,
+            def.staticDefault,
+            pointer
+          ),
+        }
+      : {}),
+    ...(def.catchValue
+      ? {
+          catch: serializeValue(
+            'Catch function',
+            def.catchValue,
+            def.staticCatch,
+            pointer
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Serialize the built type to a versioned JSON descriptor, which can be sent
+ * to other processes and revived using `revive()`. The descriptor includes
+ * type kinds, constraint rules with their parameters, descriptions and
+ * object `propMap`s.
+ *
+ * Functions used by custom rules, transforms, instance types and default or
+ * catch values must be registered using `registerFunction()`, otherwise an
+ * error is thrown. Default and catch values provided as static values are
+ * serialized as JSON values.
+ *
+ * ```ts
+ * import { BuiltType, registerFunction, revive, serialize } from '@azlabsjs/built-type';
+ *
+ * const isEven = (value: number) => value % 2 === 0;
+ * registerFunction('isEven', isEven);
+ *
+ * const descriptor = serialize(
+ *    BuiltType._object({ count: BuiltType._num().refine(isEven) })
+ * );
+ * const json = JSON.stringify(descriptor);
+ *
+ * // in another process, where `isEven` is registered using the same name
+ * const type = revive(JSON.parse(json));
+ * type.parse({ count: 2 }); // { count: 2 }
+ * ```
+ */
+export function serialize(_type: TypeAny): TypeDescriptorType {
+  const ctx: SerializeContextType = { defs: {}, refs: new Map() };
+  const type = node(ctx, _type, ['type']);
+  return {
+    version: VERSION,
+    type,
+    ...(Object.keys(ctx.defs).length !== 0 ? { defs: ctx.defs } : {}),
+  };
+}
+
+/** @internal */
+function reviveRules(
+  _type: TypeAny,
+  rules: RuleDescriptorType[],
+  pointer: string[],
+  target: ConstraintInterface = _type._def.constraint
+) {
+  const constraint = target as unknown as Record<string, FunctionAnyType>;
+  for (const { name, params, message, path, code, refinement } of rules) {
+    if (refinement) {
+      const fn = getFunction(refinement.fn, pointer);
+      if (refinement.method === 'superRefine') {
+        constraint.superRefine(fn);
+      } else if (refinement.method === 'refineAsync') {
+        constraint.refineAsync(fn, message);
+      } else {
+        constraint.refine(fn, {
+          message,
+          path,
+          code,
+          params: params ? decode(params) : undefined,
+        });
+      }
+      continue;
+    }
+    const [method, args] = RULES[name] ?? [];
+    if (!method || typeof constraint[method] !== 'function') {
+      throw new Error(
+        `Unknown ${_type._def.kind} rule ${name}, at ${location(pointer)}`
+      );
+    }
+    constraint[method](...args(decode(params ?? {})), message);
+  }
+}
+
+/** @internal */
+function reviveValue(value: ValueDescriptorType, pointer: string[]) {
+  return 'fn' in value ? getFunction(value.fn, pointer) : decode(value.value);
+}
+
+/** @internal */
+function reviveKind(
+  ctx: ReviveContextType,
+  descriptor: TypeNodeDescriptorType,
+  pointer: string[]
+): TypeAny {
+  const def = { description: descriptor.description };
+  const coerceDef = { ...def, coerce: descriptor.coerce };
+  switch (descriptor.kind) {
+    case 'string':
+      return BuiltType._str(coerceDef);
+    case 'number':
+      return BuiltType._num(coerceDef);
+    case 'bigint':
+      return BuiltType._bigint(coerceDef);
+    case 'boolean':
+      return BuiltType._bool(coerceDef);
+    case 'symbol':
+      return BuiltType._symbol(coerceDef);
+    case 'date':
+      return BuiltType._date(coerceDef);
+    case 'null':
+      return BuiltType._null();
+    case 'undefined':
+      return BuiltType._undefined();
+    case 'mixed':
+      return BuiltType._mixed();
+    case 'array':
+      return BuiltType._array(
+        build(ctx, descriptor.item, [...pointer, 'item']),
+        coerceDef
+      );
+    case 'set':
+      return BuiltType._set(
+        build(ctx, descriptor.item, [...pointer, 'item']),
+        coerceDef
+      );
+    case 'tuple':
+      return BuiltType._tuple(
+        (descriptor.items as TypeNodeDescriptorType[]).map((item, i) =>
+          build(ctx, item, [...pointer, 'items', String(i)])
+        ) as [TypeAny],
+        descriptor.rest
+          ? build(ctx, descriptor.rest, [...pointer, 'rest'])
+          : undefined,
+        def
+      );
+    case 'map':
+      return BuiltType._map(
+        build(ctx, descriptor.key, [...pointer, 'key']),
+        build(ctx, descriptor.value, [...pointer, 'value']),
+        coerceDef
+      );
+    case 'record':
+      return BuiltType._record(
+        build(ctx, descriptor.key, [...pointer, 'key']),
+        build(ctx, descriptor.value, [...pointer, 'value']),
+        def
+      );
+    case 'object': {
+      const shape = Object.fromEntries(
+        Object.entries(
+          descriptor.shape as Record<string, TypeNodeDescriptorType>
+        ).map(([key, value]) => [
+          key,
+          build(ctx, value, [...pointer, 'shape', key]),
+        ])
+      );
+      let _type = BuiltType._object(shape, descriptor.propMap ?? {}, def);
+      if (descriptor.unknownKeys === 'strict') {
+        _type = _type.strict();
+      } else if (descriptor.unknownKeys === 'passthrough') {
+        _type = _type.passthrough();
+      }
+      return descriptor.catchall
+        ? _type.catchall(
+            build(ctx, descriptor.catchall, [...pointer, 'catchall'])
+          )
+        : _type;
+    }
+    case 'union':
+    case 'discriminatedUnion': {
+      const options = (descriptor.options as TypeNodeDescriptorType[]).map(
+        (option, i) => build(ctx, option, [...pointer, 'options', String(i)])
+      );
+      return descriptor.kind === 'union'
+        ? BuiltType._union(options as [TypeAny], def)
+        : BuiltType._discriminatedUnion(
+            descriptor.discriminator,
+            options as unknown as Parameters<
+              typeof BuiltType._discriminatedUnion
+            >[1],
+            def
+          );
+    }
+    case 'literal':
+      return BuiltType._literal(decode(descriptor.value), def);
+    case 'enum':
+      return createEnumType(descriptor.entries, def);
+    case 'instanceOf':
+      return BuiltType._instanceOf(
+        getFunction(descriptor.ctor, pointer) as unknown as ClassType,
+        def
+      );
+    case 'function':
+      return BuiltType._function(
+        build(ctx, descriptor.args, [...pointer, 'args']),
+        build(ctx, descriptor.returns, [...pointer, 'returns']),
+        def
+      );
+    case 'lazy': {
+      const name = descriptor.ref as string;
+      if (!ctx.descriptor.defs?.[name]) {
+        throw new Error(
+          `Definition ${name} is missing from the descriptor, at ${location(pointer)}`
+        );
+      }
+      return BuiltType._lazy(() => {
+        let _type = ctx.refs.get(name);
+        if (!_type) {
+          _type = build(ctx, ctx.descriptor.defs![name], ['defs', name]);
+          ctx.refs.set(name, _type);
+        }
+        return _type;
+      }, def);
+    }
+    case 'transform':
+      return build(ctx, descriptor.type, [...pointer, 'type']).transform(
+        getFunction(descriptor.fn, pointer)
+      );
+    case 'pipe':
+      return build(ctx, descriptor.in, [...pointer, 'in']).pipe(
+        build(ctx, descriptor.out, [...pointer, 'out'])
+      );
+    default:
+      throw new Error(
+        `Unknown built type kind ${descriptor.kind}, at ${location(pointer)}`
+      );
+  }
+}
+
+/** @internal */
+function build(
+  ctx: ReviveContextType,
+  descriptor: TypeNodeDescriptorType,
+  pointer: string[]
+): TypeAny {
+  let _type = reviveKind(ctx, descriptor, pointer);
+  reviveRules(_type, descriptor.rules ?? [], pointer);
+  if (descriptor.nullable) {
+    _type.nullable();
+  }
+  if (descriptor.optional) {
+    _type.optional();
+  }
+  if (
+    descriptor.description &&
+    _type._def.description !== descriptor.description
+  ) {
+    _type = _type.describe(descriptor.description);
+  }
+  if (descriptor.examples) {
+    _type = _type.examples(decode(descriptor.examples));
+  }
+  if (descriptor.refinements) {
+    const refinements = new NoConstraint();
+    reviveRules(_type, descriptor.refinements, pointer, refinements);
+    _type = _type.copy({ refinements });
+  }
+  if (descriptor.default) {
+    _type = _type.default(reviveValue(descriptor.default, pointer));
+  }
+  if (descriptor.catch) {
+    _type = _type.catch(reviveValue(descriptor.catch, pointer));
+  }
+  return _type;
+}
+
+/**
+ * Recreates the built type described by a descriptor created using
+ * `serialize()`. Functions referenced by the descriptor must be registered
+ * using `registerFunction()`, and unknown kinds or rules throw an error.
+ *
+ * ```ts
+ * import { revive } from '@azlabsjs/built-type';
+ *
+ * const type = revive({
+ *    version: 1,
+ *    type: { kind: 'string', rules: [{ name: 'min_len', params: { minimum: 2 } }] },
+ * });
+ *
+ * type.parse('ab'); // 'ab'
+ * ```
+ */
+export function revive(descriptor: TypeDescriptorType): TypeAny {
+  if (descriptor?.version !== VERSION) {
+    throw new Error(
+      `Unsupported built type descriptor version ${descriptor?.version}, expected version ${VERSION}`
+    );
+  }
+  return build({ descriptor, refs: new Map() }, descriptor.type, ['type']);
+}
@@ -1,4 +1,19 @@
-import { ConstraintInterface, UnknownType } from './types';
+import { getValueType } from './issues';
+import { createIssue } from './messages';
+import {
+  ConstraintInterface,
+  ConstraintIssueType,
+  ConstraintRefinementType,
+  ConstraintRuleType,
+  Issue,
+  ParseOptions,
+  RefinementContextType,
+  UnknownType,
+  _AbstractType,
+} from './types';
+
+/** @internal */
+type RuleResultType = boolean | Partial<ConstraintIssueType>[];
 
 /**
  * Base class for constraint that are applicable on built types.
@@ -6,10 +21,20 @@ import { ConstraintInterface, UnknownType } from './types';
 abstract class Constraint implements ConstraintInterface {
   protected _map: Map<
     string,
-    { fn: (value: UnknownType) => boolean; message: string }
+    {
+      fn: (
+        value: UnknownType,
+        options?: ParseOptions
+      ) => RuleResultType | Promise<RuleResultType>;
+      message?: string;
+      path?: (string | number)[];
+      code?: string;
+      params?: Record<string, UnknownType>;
+      refinement?: ConstraintRefinementType;
+    }
   > = new Map();
 
-  protected _errors: string[] = [];
+  protected _errors: Issue[] = [];
 
   private _null = false;
 
@@ -19,6 +44,36 @@ abstract class Constraint implements ConstraintInterface {
     return this._errors;
   }
 
+  /**
+   * Returns the rules of the constraint, excluding their validation function
+   */
+  get rules(): ConstraintRuleType[] {
+    return Array.from(this._map.entries()).map(
+      ([name, { code, params, message, path, refinement }]) => ({
+        name,
+        code,
+        params,
+        message,
+        path,
+        refinement,
+      })
+    );
+  }
+
+  /**
+   * Returns true if the constraint supports null values
+   */
+  get acceptsNull() {
+    return this._null;
+  }
+
+  /**
+   * Returns true if the constraint supports undefined values
+   */
+  get acceptsUndefined() {
+    return this._undefined;
+  }
+
   abstract expectType: string | ((value: UnknownType) => boolean);
 
   nullable() {
@@ -32,25 +87,189 @@ abstract class Constraint implements ConstraintInterface {
     return this;
   }
 
+  optional() {
+    this._undefined = true;
+    return this;
+  }
+
+  nonnullish() {
+    this._undefined = false;
+    this._null = false;
+    return this;
+  }
+
   fails() {
     return this._errors.length !== 0;
   }
 
-  apply(value: unknown) {
+  clone() {
+    const constraint = Object.create(Object.getPrototypeOf(this)) as this;
+    Object.assign(constraint, this);
+    constraint._map = new Map(this._map);
+    constraint._errors = [];
+    return constraint;
+  }
+
+  /**
+   * Add an asynchronous rule to the constraint. Asynchronous rules are only
+   * supported when parsing values using `parseAsync()` or `safeParseAsync()`
+   *
+   * ```ts
+   * const constraint = new StrConstraint().refineAsync(
+   *    async (value, options) => !(await usernameExists(value, options?.signal)),
+   *    'Username is already taken'
+   * );
+   * ```
+   */
+  refineAsync(
+    fn: (value: UnknownType, options?: ParseOptions) => Promise<boolean>,
+    message?: string
+  ) {
+    this._map.set(`refine_async_${this._map.size}`, {
+      fn,
+      message,
+      refinement: { method: 'refineAsync', fn },
+    });
+    return this;
+  }
+
+  /**
+   * Add a custom rule to the constraint. The rule fails if `fn` returns false,
+   * and reports the provided message, or the provided issue `message`, `path`
+   * and `code` properties.
+   *
+   * ```ts
+   * const constraint = new StrConstraint().refine(
+   *    (value) => value !== 'admin',
+   *    { message: 'Reserved username', code: 'reserved' }
+   * );
+   * ```
+   */
+  refine(
+    fn: (value: UnknownType) => boolean,
+    message?: string | ConstraintIssueType
+  ) {
+    const issue = typeof message === 'string' ? { message } : message;
+    this._map.set(`refine_${this._map.size}`, {
+      fn,
+      message: issue?.message,
+      path: issue?.path,
+      code: issue?.code,
+      params: issue?.params,
+      refinement: { method: 'refine', fn },
+    });
+    return this;
+  }
+
+  /**
+   * Add a custom rule to the constraint that can report multiple issues,
+   * using the `addIssue` method of the provided context.
+   *
+   * ```ts
+   * const constraint = new ObjectConstraint().superRefine((value, ctx) => {
+   *    if (value.password !== value.confirm) {
+   *      ctx.addIssue({ message: 'Passwords do not match', path: ['confirm'] });
+   *    }
+   * });
+   * ```
+   */
+  superRefine(
+    fn: (value: UnknownType, ctx: RefinementContextType) => void | Promise<void>
+  ) {
+    this._map.set(`refine_${this._map.size}`, {
+      fn: (value: unknown) => {
+        const issues: ConstraintIssueType[] = [];
+        const result = fn(value, {
+          addIssue: (issue) =>
+            issues.push(typeof issue === 'string' ? { message: issue } : issue),
+        });
+        return result instanceof Promise ? result.then(() => issues) : issues;
+      },
+      refinement: { method: 'superRefine', fn },
+    });
+    return this;
+  }
+
+  apply(value: unknown, options?: ParseOptions) {
     // reset the errors array to reuse the constraint for a given value
     this._errors = [];
-  
+
+    if (!this.applyType(value, options)) {
+      return this;
+    }
+
+    for (const key of this._map.keys()) {
+      const v = this._map.get(key);
+      if (typeof v === 'undefined' || v === null) {
+        continue;
+      }
+      const result = v.fn(value);
+      if (result instanceof Promise) {
+        throw new Error(
+          'Constraint contains asynchronous rules, use parseAsync() or safeParseAsync() to parse the value'
+        );
+      }
+      this.pushErrors(v, result, options);
+    }
+    return this;
+  }
+
+  async applyAsync(value: unknown, options?: ParseOptions) {
+    // Concurrent parse operations might use the same constraint instance,
+    // therefore errors are collected on a copy of the current constraint
+    const constraint = this.clone();
+    if (!constraint.applyType(value, options)) {
+      return constraint;
+    }
+    const rules = Array.from(this._map.values());
+    const results = await Promise.all(
+      rules.map((rule) => rule.fn(value, options))
+    );
+    results.forEach((result, index) => {
+      constraint.pushErrors(rules[index], result, options);
+    });
+    return constraint;
+  }
+
+  /**
+   * Add the issues reported by a rule to the errors list. Issues without
+   * a code are reported as `custom` issues, and issues without a message are
+   * reported using the message catalog of the parse operation locale.
+   */
+  private pushErrors(
+    rule: Partial<ConstraintIssueType>,
+    result: RuleResultType,
+    options?: ParseOptions
+  ) {
+    const issues = result === false ? [rule] : result === true ? [] : result;
+    for (const { message, path, code, params } of issues) {
+      this._errors.push(
+        createIssue(
+          {
+            code: code ?? 'custom',
+            path: path ?? [],
+            ...(params ? { params } : {}),
+            message,
+          },
+          options?.locale
+        )
+      );
+    }
+  }
+
+  /**
+   * Checks the value type, and returns true if constraint rules must be
+   * applied on the value.
+   */
+  private applyType(value: unknown, options?: ParseOptions) {
     // case the value is null and the constraint allow null type
     // return this to wihtout applying any other constraint
     if (this._null === true && value === null) {
-      return this;
+      return false;
     }
 
-    if (
-      this._undefined === true &&
-      (value === null || typeof value === 'undefined')
-    ) {
-      return this;
+    if (this._undefined === true && typeof value === 'undefined') {
+      return false;
     }
     const assertType =
       typeof this.expectType === 'string'
@@ -59,23 +278,39 @@ abstract class Constraint implements ConstraintInterface {
 
     if (!assertType(value)) {
       this._errors.push(
-        typeof this.expectType === 'string'
-          ? `Value must be of type ${this.expectType}, ${typeof value} given`
-          : `Unsupported type ${typeof value}`
+        createIssue(this.typeErrorIssue(value), options?.locale)
       );
-      return this;
+      return false;
     }
+    return true;
+  }
 
-    for (const key of this._map.keys()) {
-      const v = this._map.get(key);
-      if (typeof v === 'undefined' || v === null) {
-        continue;
-      }
-      if (v.fn(value) === false) {
-        this._errors.push(v.message);
-      }
-    }
-    return this;
+  /**
+   * Returns the issue added to the errors list when the value does not
+   * match the constraint expected type
+   */
+  protected typeErrorIssue(value: unknown): Omit<Issue, 'message'> {
+    return {
+      code: 'invalid_type',
+      path: [],
+      expected: this.expected(),
+      received: getValueType(value),
+    };
+  }
+
+  /**
+   * Returns the name of the type expected by the constraint
+   */
+  protected expected() {
+    return typeof this.expectType === 'string' ? this.expectType : 'unknown';
+  }
+
+  /**
+   * Returns the name of the type expected by `constraint`, which may be
+   * the constraint of another type
+   */
+  protected static expectedOf(constraint: ConstraintInterface) {
+    return constraint instanceof Constraint ? constraint.expected() : 'unknown';
   }
 }
 
@@ -102,69 +337,81 @@ export class StrConstraint extends Constraint {
 
   minLength(len: number, message?: string) {
     this._map.set('min_len', {
+      code: 'too_small',
+      params: { minimum: len, type: 'string' },
       fn: (value: unknown) => typeof value === 'string' && value.length >= len,
-      message:
-        message ??
-        `Expect length string length to be greater than or equal to ${len}`,
+      message,
     });
     return this;
   }
 
   maxLength(len: number, message?: string) {
     this._map.set('max_len', {
+      code: 'too_big',
+      params: { maximum: len, type: 'string' },
       fn: (value: unknown) => typeof value === 'string' && value.length <= len,
-      message:
-        message ??
-        `Expect length string length to be less than or equal to ${len}`,
+      message,
     });
     return this;
   }
 
   pattern(regex: RegExp, message?: string) {
     this._map.set('pattern', {
+      code: 'invalid_string',
+      params: {
+        validation: 'pattern',
+        pattern: regex.source,
+        flags: regex.flags,
+      },
       fn: (value: unknown) => typeof value === 'string' && regex.test(value),
-      message:
-        message ??
-        `Expect the string to match the corresponding pattern ${regex.source}`,
+      message,
     });
     return this;
   }
 
   startsWith(needle: string, message?: string) {
     this._map.set('starts_with', {
+      code: 'invalid_string',
+      params: { validation: 'starts_with', needle },
       fn: (value: unknown) =>
         typeof value === 'string' && value.startsWith(needle),
-      message: message ?? `Expect string value to starts with ${needle}`,
+      message,
     });
     return this;
   }
 
   endsWith(needle: string, message?: string) {
     this._map.set('ends_with', {
+      code: 'invalid_string',
+      params: { validation: 'ends_with', needle },
       fn: (value: unknown) =>
         typeof value === 'string' && value.endsWith(needle),
-      message: message ?? `Expect string value to ends with ${needle}`,
+      message,
     });
     return this;
   }
 
   length(len: number, message?: string) {
     this._map.set('len', {
+      code: 'invalid_length',
+      params: { length: len, type: 'string' },
       fn: (value: string) => value.length === len,
-      message:
-        message ?? `Expect computed length of the string to equal ${len}`,
+      message,
     });
     return this;
   }
 
   notEmpty(message?: string) {
-    this._map.set('ends_with', {
+    this._map.set('not_empty', {
+      code: 'too_small',
+      params: { minimum: 1, type: 'string' },
       fn: (value: string) =>
         typeof value !== 'undefined' &&
         typeof value === 'string' &&
         value.trim() !== '',
-      message: message ?? `Attribute must not be empty`,
+      message,
     });
+    return this;
   }
 }
 
@@ -188,73 +435,172 @@ export class NumberConstraint extends Constraint {
 
   min(min: number, message?: string) {
     this._map.set('min', {
+      code: 'too_small',
+      params: { minimum: min, type: 'number' },
       fn: (value: unknown) => typeof value === 'number' && value >= min,
-      message:
-        message ?? `Expect the value to be greater than or equal to ${min}`,
+      message,
     });
     return this;
   }
 
   max(min: number, message?: string) {
     this._map.set('max', {
+      code: 'too_big',
+      params: { maximum: min, type: 'number' },
       fn: (value: unknown) => typeof value === 'number' && value <= min,
-      message: message ?? `Expect the value to be less than or equal to ${min}`,
+      message,
     });
     return this;
   }
 
   positive(message?: string) {
     this._map.set('positive', {
+      code: 'too_small',
+      params: { minimum: 0, exclusive: true, type: 'number' },
       fn: (value: unknown) =>
-        typeof value === 'number' && Math.min(0, value) !== 0,
-      message: message ?? `Expect the value to be a positive integer`,
+        typeof value === 'number' && Math.max(0, value) !== 0,
+      message,
     });
     return this;
   }
 
+  /**
+   * Only accept numbers lower than or equal to 0. Unlike `positive()`, the
+   * rule is not exclusive and accepts 0
+   */
   negative(message?: string) {
     this._map.set('negative', {
+      code: 'too_big',
+      params: { maximum: 0, exclusive: false, type: 'number' },
       fn: (value: unknown) =>
         typeof value === 'number' && Math.max(0, value) === 0,
-      message: message ?? `Expect the value to be a negative integer`,
+      message,
     });
     return this;
   }
 
   int(message?: string) {
     this._map.set('int', {
+      code: 'not_integer',
       fn: (value: unknown) => {
         return Number.isSafeInteger(value);
       },
-      message: message ?? `Expect the value to be an integer value`,
+      message,
     });
     return this;
   }
 
   float(message?: string) {
     this._map.set('float', {
+      code: 'not_float',
       fn: (value: unknown) =>
         typeof value === 'number' && !Number.isInteger(value),
-      message: message ?? `Expect the value to be an integer value`,
+      message,
     });
     return this;
   }
 
   finite(message?: string) {
     this._map.set('finite', {
+      code: 'not_finite',
       fn: (value: unknown) => Number.isFinite(value),
-      message: message ?? `Expect the value to be an integer value`,
+      message,
     });
     return this;
   }
 
   between(min: number, max: number, message?: string) {
     this._map.set('between', {
+      code: 'not_in_range',
+      params: { minimum: min, maximum: max, type: 'number' },
       fn: (value: unknown) =>
         typeof value === 'number' && min <= value && max >= value,
-      message:
-        message ??
-        `Expect the value be less than or equal to ${max} and greater than or equal to ${min}`,
+      message,
+    });
+    return this;
+  }
+}
+
+/**
+ * Defines a bigint constraint class that can be applied to
+ * built bigint types
+ *
+ * ```ts
+ * import { BigIntConstraint } from '@azlabsjs/built-type';
+ *
+ * const constraint = (new BigIntConstraint)
+ *                      .min(BigInt(2));
+ *
+ * // Invoke the constraint on a value
+ * constraint.apply(BigInt(3)).fails(); // false
+ * constraint.apply(BigInt(1)).fails(); // true
+ * ```
+ */
+export class BigIntConstraint extends Constraint {
+  expectType = 'bigint';
+
+  min(min: bigint, message?: string) {
+    this._map.set('min', {
+      code: 'too_small',
+      params: { minimum: min, type: 'bigint' },
+      fn: (value: unknown) => typeof value === 'bigint' && value >= min,
+      message,
+    });
+    return this;
+  }
+
+  max(max: bigint, message?: string) {
+    this._map.set('max', {
+      code: 'too_big',
+      params: { maximum: max, type: 'bigint' },
+      fn: (value: unknown) => typeof value === 'bigint' && value <= max,
+      message,
+    });
+    return this;
+  }
+
+  positive(message?: string) {
+    this._map.set('positive', {
+      code: 'too_small',
+      params: { minimum: BigInt(0), exclusive: true, type: 'bigint' },
+      fn: (value: unknown) => typeof value === 'bigint' && value > BigInt(0),
+      message,
+    });
+    return this;
+  }
+
+  /**
+   * Only accept bigint values lower than or equal to 0, like the number
+   * constraint `negative()` rule
+   */
+  negative(message?: string) {
+    this._map.set('negative', {
+      code: 'too_big',
+      params: { maximum: BigInt(0), exclusive: false, type: 'bigint' },
+      fn: (value: unknown) => typeof value === 'bigint' && value <= BigInt(0),
+      message,
+    });
+    return this;
+  }
+
+  multipleOf(divisor: bigint, message?: string) {
+    this._map.set('multipleOf', {
+      code: 'not_multiple_of',
+      params: { multipleOf: divisor },
+      fn: (value: unknown) =>
+        typeof value === 'bigint' && value % divisor === BigInt(0),
+      message,
+    });
+    return this;
+  }
+
+  between(min: bigint, max: bigint, message?: string) {
+    this._map.set('between', {
+      code: 'not_in_range',
+      params: { minimum: min, maximum: max, type: 'bigint' },
+      fn: (value: unknown) =>
+        typeof value === 'bigint' && min <= value && max >= value,
+      message,
     });
     return this;
   }
@@ -287,6 +633,24 @@ export class SymbolConstraint extends Constraint {
   expectType = 'symbol';
 }
 
+/**
+ * Defines a function constraint class that can be applied to
+ * built function types
+ *
+ * ```ts
+ * import { FunctionConstraint } from '@azlabsjs/built-type';
+ *
+ * const constraint = new FunctionConstraint();
+ *
+ * // Invoke the constraint on a value
+ * constraint.apply(() => true).fails(); // false
+ * constraint.apply('Hello').fails(); // true
+ * ```
+ */
+export class FunctionConstraint extends Constraint {
+  expectType = 'function';
+}
+
 function isDateObject(v: unknown): v is Date {
   return (
     v instanceof Date ||
@@ -311,6 +675,10 @@ function isDateObject(v: unknown): v is Date {
 export class DateContraint extends Constraint {
   expectType = isDateObject;
 
+  protected expected() {
+    return 'date';
+  }
+
   private readonly _createDateFunc!: (value: unknown) => Date;
 
   constructor(createDateFunc?: (value: unknown) => Date) {
@@ -328,36 +696,28 @@ export class DateContraint extends Constraint {
   // TODO: Add JSDate method after, before, etc... for validation
   min(min: number | Date, message?: string) {
     this._map.set('min_date', {
+      code: 'too_small',
+      params: { minimum: min, type: 'date' },
       fn: (value: unknown) =>
         (value instanceof Date
           ? value
           : this._createDateFunc(value)
         ).getTime() >= (typeof min === 'number' ? min : min.getTime()),
-      message:
-        message ??
-        `Expects date to be after ${
-          typeof min === 'number'
-            ? new Date(min).toLocaleString()
-            : min.toLocaleDateString()
-        }`,
+      message,
     });
     return this;
   }
 
   max(max: number | Date, message?: string) {
     this._map.set('max_date', {
+      code: 'too_big',
+      params: { maximum: max, type: 'date' },
       fn: (value: unknown) =>
         (value instanceof Date
           ? value
           : this._createDateFunc(value)
-        ).getTime() >= (typeof max === 'number' ? max : max.getTime()),
-      message:
-        message ??
-        `Expects date to be before ${
-          typeof max === 'number'
-            ? new Date(max).toLocaleString()
-            : max.toLocaleDateString()
-        }`,
+        ).getTime() <= (typeof max === 'number' ? max : max.getTime()),
+      message,
     });
     return this;
   }
@@ -385,46 +745,88 @@ export class DateContraint extends Constraint {
 export class ArrayConstraint extends Constraint {
   expectType = (v: unknown) => Array.isArray(v);
 
+  protected expected() {
+    return 'array';
+  }
+
   min(len: number, message?: string) {
     this._map.set('min', {
+      code: 'too_small',
+      params: { minimum: len, type: this.expected() },
       fn: (value: unknown) =>
         Array.isArray(value) && (value ?? []).length >= len,
-      message:
-        message ??
-        `Expects the array length to contains at least ${len} element`,
+      message,
     });
     return this;
   }
 
   max(len: number, message?: string) {
     this._map.set('max', {
+      code: 'too_big',
+      params: { maximum: len, type: this.expected() },
       fn: (value: unknown) =>
         Array.isArray(value) && (value ?? []).length <= len,
-      message:
-        message ??
-        `Expects the array length to contains at most ${len} element`,
+      message,
     });
     return this;
   }
 
   length(len: number, message?: string) {
     this._map.set('length', {
+      code: 'invalid_length',
+      params: { length: len, type: this.expected() },
       fn: (value: unknown) => Array.isArray(value) && value.length === len,
-      message: message ?? `Expects the array length to equal ${len}`,
+      message,
     });
     return this;
   }
 
   nonempty(message?: string) {
     this._map.set('nonempty', {
+      code: 'too_small',
+      params: { minimum: 1, type: this.expected() },
       fn: (value: unknown) =>
         Array.isArray(value) && (value ?? []).length !== 0,
-      message: message ?? `Expects the array to not be empty`,
+      message,
     });
     return this;
   }
 }
 
+/**
+ * Defines a tuple constraint class that is applied to built tuple
+ * types. It enforces the length of the tuple, which must equal the number
+ * of tuple items, or must be greater than or equal to the number of tuple items
+ * if the tuple has a rest element. The `required` parameter allows trailing
+ * optional items to be omitted.
+ *
+ * ```ts
+ * import { TupleConstraint } from '@azlabsjs/built-type';
+ *
+ * const constraint = new TupleConstraint(2);
+ *
+ * // Invoke the constraint on a value
+ * constraint.apply([6.13, 1.22]).fails(); // false
+ * constraint.apply([6.13]).fails(); // true
+ * ```
+ */
+export class TupleConstraint extends ArrayConstraint {
+  constructor(len: number, rest = false, required = len) {
+    super();
+    if (rest) {
+      this.min(required);
+    } else if (required === len) {
+      this.length(len);
+    } else {
+      this.min(required).max(len);
+    }
+  }
+
+  protected expected() {
+    return 'tuple';
+  }
+}
+
 /**
  * Defines an object constraint class that can be applied to
  * built object types
@@ -439,21 +841,49 @@ export class ObjectConstraint extends Constraint {
 
   required(keys: string | string[], message?: string) {
     const _keys = typeof keys === 'string' ? [keys] : keys;
-    const missingKeys: string[] = [];
     this._map.set('required', {
       fn: (value: unknown) => {
-        for (const key of _keys) {
-          if (!(key in (value as object))) {
-            missingKeys.push(key);
-            continue;
-          }
-        }
-        return missingKeys.length === 0;
+        const missingKeys = _keys.filter((key) => !(key in (value as object)));
+        return (
+          missingKeys.length === 0 || [
+            { code: 'missing_keys', message, params: { keys: missingKeys } },
+          ]
+        );
       },
-      message: message ?? `Missing object properties ${missingKeys.join(', ')}`,
+      code: 'missing_keys',
+      message,
+      params: { keys: _keys },
     });
     return this;
   }
+
+  protected expected() {
+    return 'object';
+  }
+}
+
+/**
+ * Defines a record constraint class that can be applied to
+ * built record types. Unlike object constraint, record constraint
+ * only accept plain javascript objects, excluding `null` and arrays.
+ *
+ * ```ts
+ * import { RecordConstraint } from '@azlabsjs/built-type';
+ *
+ * const constraint = new RecordConstraint();
+ *
+ * // Invoke the constraint on a value
+ * constraint.apply({ fr: 'Bonjour' }).fails(); // false
+ * constraint.apply(['Bonjour']).fails(); // true
+ * ```
+ */
+export class RecordConstraint extends Constraint {
+  expectType = (value: unknown) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  protected expected() {
+    return 'object';
+  }
 }
 
 /**
@@ -464,6 +894,146 @@ export class NoConstraint extends Constraint {
   expectType = () => true;
 }
 
+/**
+ * Defines a constraint that is applied to union built types.
+ *
+ * Union constraint does not restrict the type of non nil values, as they are
+ * checked by the union members, but `null` and `undefined` values are only
+ * accepted if the constraint is nullable or one of the members accept them.
+ */
+export class UnionConstraint extends Constraint {
+  expectType = (value: unknown) =>
+    (typeof value !== 'undefined' && value !== null) ||
+    this._options.some((t) =>
+      value === null ? t.isNullable() : t.isOptional()
+    );
+
+  protected expected() {
+    const expected = this._options.map((t) =>
+      Constraint.expectedOf(t._def.constraint)
+    );
+    return Array.from(new Set(expected)).join(' | ');
+  }
+
+  constructor(private readonly _options: readonly _AbstractType<unknown>[]) {
+    super();
+  }
+}
+
+/**
+ * Defines a literal constraint class that can be applied to
+ * built literal types
+ *
+ * ```ts
+ * import { LiteralConstraint } from '@azlabsjs/built-type';
+ *
+ * const constraint = new LiteralConstraint('draft');
+ *
+ * // Invoke the constraint on a value
+ * constraint.apply('draft').fails(); // false
+ * constraint.apply('published').fails(); // true
+ * ```
+ */
+export class LiteralConstraint extends Constraint {
+  expectType = (value: unknown) => Object.is(value, this._value);
+
+  constructor(private readonly _value: unknown) {
+    super();
+  }
+
+  protected typeErrorIssue(value: unknown) {
+    return {
+      ...super.typeErrorIssue(value),
+      code: 'invalid_literal',
+      params: { expected: this._value },
+    };
+  }
+
+  protected expected() {
+    return String(this._value);
+  }
+}
+
+/**
+ * Defines an instance constraint class that can be applied to
+ * built class instance types. Values are accepted if the constructor
+ * prototype is in their prototype chain.
+ *
+ * ```ts
+ * import { InstanceOfConstraint } from '@azlabsjs/built-type';
+ *
+ * const constraint = new InstanceOfConstraint(URL);
+ *
+ * // Invoke the constraint on a value
+ * constraint.apply(new URL('https://example.com')).fails(); // false
+ * constraint.apply('https://example.com').fails(); // true
+ * ```
+ */
+export class InstanceOfConstraint extends Constraint {
+  expectType = (value: unknown) => value instanceof this._ctor;
+
+  constructor(
+    private readonly _ctor: abstract new (...args: UnknownType[]) => unknown
+  ) {
+    super();
+  }
+
+  protected typeErrorIssue(value: unknown) {
+    return { ...super.typeErrorIssue(value), params: { instanceOf: true } };
+  }
+
+  protected expected() {
+    return this._ctor.name;
+  }
+}
+
+/**
+ * Defines an enum constraint class that can be applied to
+ * built enum types
+ *
+ * ```ts
+ * import { EnumConstraint } from '@azlabsjs/built-type';
+ *
+ * const constraint = new EnumConstraint(['draft', 'published']);
+ *
+ * // Invoke the constraint on a value
+ * constraint.apply('draft').fails(); // false
+ * constraint.apply('archived').fails(); // true
+ * ```
+ */
+export class EnumConstraint extends Constraint {
+  expectType = (value: unknown) => this._values.includes(value);
+
+  constructor(private readonly _values: readonly unknown[]) {
+    super();
+  }
+
+  protected typeErrorIssue(value: unknown) {
+    return {
+      ...super.typeErrorIssue(value),
+      code: 'invalid_enum_value',
+      params: { options: this._values },
+    };
+  }
+
+  protected expected() {
+    return this._values.map(String).join(' | ');
+  }
+}
+
+/**
+ * @internal
+ *
+ * Defines a constraint that is applied to built types delegating values
+ * parsing to other types, like lazy, transform and pipe types.
+ *
+ * The constraint only succeeds for `null` and `undefined` values when it is
+ * nullable or nullish, as other values are checked by the delegate types.
+ */
+export class DelegateConstraint extends Constraint {
+  expectType = () => false;
+}
+
 /**
  * Defines a null and undefined constraint class that can be applied to
  * built null and undefined types
@@ -482,6 +1052,10 @@ export class NoConstraint extends Constraint {
 export class NullishConstraint extends Constraint {
   expectType = (_value: unknown) =>
     typeof _value === 'undefined' || _value === null;
+
+  protected expected() {
+    return 'null | undefined';
+  }
 }
 
 /**
@@ -500,6 +1074,10 @@ export class NullishConstraint extends Constraint {
  */
 export class NullConstraint extends Constraint {
   expectType = (value: unknown) => value === null;
+
+  protected expected() {
+    return 'null';
+  }
 }
 
 /**
@@ -513,7 +1091,7 @@ export class MapConstraint extends Constraint {
     }
 
     function isObject(v: unknown): v is Record<string, unknown> {
-      return typeof v === 'object';
+      return typeof v === 'object' && v !== null;
     }
 
     if (
@@ -529,6 +1107,10 @@ export class MapConstraint extends Constraint {
 
     return false;
   };
+
+  protected expected() {
+    return 'map';
+  }
 }
 
 /**
@@ -556,7 +1138,7 @@ export class SetConstraint extends Constraint {
       return true;
     }
     function isObject(v: unknown): v is Record<string, unknown> {
-      return typeof v === 'object';
+      return typeof v === 'object' && v !== null;
     }
     if (
       isObject(value) &&
@@ -571,26 +1153,36 @@ export class SetConstraint extends Constraint {
     return false;
   };
 
+  protected expected() {
+    return 'set';
+  }
+
   min(len: number, message?: string) {
     this._map.set('min', {
+      code: 'too_small',
+      params: { minimum: len, type: 'set' },
       fn: (value: unknown) => (value as Set<unknown>)?.size >= len,
-      message: message ?? `Expects set to be greater ${len}`,
+      message,
     });
     return this;
   }
 
   max(len: number, message?: string) {
     this._map.set('max', {
+      code: 'too_big',
+      params: { maximum: len, type: 'set' },
       fn: (value: unknown) => (value as Set<unknown>)?.size <= len,
-      message: message ?? `Expects set size be less than ${len}`,
+      message,
     });
     return this;
   }
 
   nonempty(message?: string) {
     this._map.set('nonempty', {
+      code: 'too_small',
+      params: { minimum: 1, type: 'set' },
       fn: (value: unknown) => (value as Set<unknown>)?.size !== 0,
-      message: message ?? `Expects set to not be empty`,
+      message,
     });
     return this;
   }
@@ -2,6 +2,101 @@
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type UnknownType = any;
 
+/**
+ * @type
+ *
+ * Codes of the issues reported by built types and constraints
+ */
+export type IssueCode =
+  | 'invalid_type'
+  | 'invalid_literal'
+  | 'invalid_enum_value'
+  | 'invalid_union'
+  | 'invalid_union_discriminator'
+  | 'unrecognized_keys'
+  | 'missing_keys'
+  | 'too_small'
+  | 'too_big'
+  | 'invalid_length'
+  | 'invalid_string'
+  | 'not_integer'
+  | 'not_float'
+  | 'not_finite'
+  | 'not_in_range'
+  | 'not_multiple_of'
+  | 'circular_reference'
+  | 'custom';
+
+/**
+ * @type
+ *
+ * Issue reported when a value fails to parse. The issue `path` locates the
+ * invalid value from the parsed value root, using object keys and
+ * collection indexes.
+ *
+ * ```ts
+ * {
+ *    code: 'invalid_type',
+ *    path: ['address', 'city'],
+ *    message: 'Value must be of type string, number given',
+ *    expected: 'string',
+ *    received: 'number',
+ * }
+ * ```
+ */
+export type Issue = {
+  code: IssueCode | (string & Record<never, never>);
+  path: (string | number)[];
+  message: string;
+  expected?: string;
+  received?: string;
+  params?: Record<string, UnknownType>;
+};
+
+/**
+ * @type
+ *
+ * Function returning the message of an issue for the provided locale
+ */
+export type IssueMessageFnType = (
+  issue: Omit<Issue, 'message'>,
+  locale: string
+) => string;
+
+/**
+ * @type
+ *
+ * Message catalog, mapping issue codes to the functions used to create
+ * their messages
+ */
+export type MessageCatalogType = {
+  [code: string]: IssueMessageFnType;
+};
+
+/**
+ * @type
+ *
+ * Issue reported by constraint custom rules
+ */
+export type ConstraintIssueType = {
+  message?: string;
+  path?: (string | number)[];
+  code?: string;
+  params?: Record<string, UnknownType>;
+};
+
+/**
+ * @type
+ *
+ * Context provided to constraint `superRefine` rules
+ */
+export type RefinementContextType = {
+  /**
+   * Report an issue on the value being parsed
+   */
+  addIssue(issue: string | ConstraintIssueType): void;
+};
+
 /**
  * A constraint is a set of rules that can be applied to a given type
  * to insure that runtime code execute safely
@@ -10,7 +105,22 @@ export interface ConstraintInterface {
   /**
    * Constraint validation errrors
    */
-  errors: unknown;
+  errors: Issue[];
+
+  /**
+   * Constraint rules, which allow built types to be introspected
+   */
+  rules?: ConstraintRuleType[];
+
+  /**
+   * Whether the constraint supports null values
+   */
+  acceptsNull?: boolean;
+
+  /**
+   * Whether the constraint supports undefined values
+   */
+  acceptsUndefined?: boolean;
 
   /**
    * Constraint expected type
@@ -27,6 +137,38 @@ export interface ConstraintInterface {
    */
   nullish(): ConstraintInterface;
 
+  /**
+   * Constraint the variable to support undefined type
+   */
+  optional(): ConstraintInterface;
+
+  /**
+   * Removes the null and undefined types support from the constraint
+   */
+  nonnullish(): ConstraintInterface;
+
+  /**
+   * Creates a copy of the constraint, including its rules, that can be
+   * modified without affecting the current constraint
+   */
+  clone(): ConstraintInterface;
+
+  /**
+   * Add a custom rule to the constraint, which fails if `fn` returns false
+   */
+  refine(
+    fn: (value: UnknownType) => boolean,
+    message?: string | ConstraintIssueType
+  ): ConstraintInterface;
+
+  /**
+   * Add a custom rule to the constraint, which can report multiple issues
+   * using the provided context
+   */
+  superRefine(
+    fn: (value: UnknownType, ctx: RefinementContextType) => void | Promise<void>
+  ): ConstraintInterface;
+
   /**
    * Check if the constraint fails on the variable. Constraints
    * will be in failure state if any of the validation function fails
@@ -46,9 +188,102 @@ export interface ConstraintInterface {
   /**
    * Call the constraint on user provided value
    */
-  apply(value: unknown): ConstraintInterface;
+  apply(value: unknown, options?: ParseOptions): ConstraintInterface;
+
+  /**
+   * Asynchronously call the constraint on user provided value. Unlike `apply()`,
+   * it supports asynchronous rules and returns a constraint instance holding
+   * the validation errors, so that concurrent calls do not share their errors.
+   */
+  applyAsync(
+    value: unknown,
+    options?: ParseOptions
+  ): Promise<ConstraintInterface>;
 }
 
+/**
+ * @type
+ *
+ * Custom rule function added to a constraint using `refine()`,
+ * `superRefine()` or `refineAsync()`
+ */
+export type ConstraintRefinementType = {
+  method: 'refine' | 'superRefine' | 'refineAsync';
+  fn: (...args: UnknownType[]) => UnknownType;
+};
+
+/**
+ * @type
+ *
+ * Rule registered on a constraint. Custom rules added using `refine()`,
+ * `superRefine()` or `refineAsync()` provide their function as `refinement`.
+ */
+export type ConstraintRuleType = {
+  name: string;
+  code?: string;
+  params?: Record<string, UnknownType>;
+  message?: string;
+  path?: (string | number)[];
+  refinement?: ConstraintRefinementType;
+};
+
+/**
+ * @type
+ *
+ * Options used when parsing values
+ */
+export type ParseOptions = {
+  /**
+   * Abort signal used to cancel a running asynchronous parse operation
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Locale of the messages reported by the parse operation issues. It
+   * defaults to the locale set using `setDefaultLocale()`
+   */
+  locale?: string;
+
+  /**
+   * @internal
+   *
+   * Values being parsed by lazy types. They are used to detect cyclic values
+   */
+  ancestors?: unknown[];
+};
+
+/**
+ * @type
+ *
+ * Kind of the built types created using `BuiltType` factory methods. It
+ * allows built types to be introspected.
+ */
+export type TypeKindType =
+  | 'string'
+  | 'number'
+  | 'bigint'
+  | 'boolean'
+  | 'symbol'
+  | 'date'
+  | 'array'
+  | 'null'
+  | 'undefined'
+  | 'map'
+  | 'record'
+  | 'set'
+  | 'mixed'
+  | 'object'
+  | 'union'
+  | 'discriminatedUnion'
+  | 'literal'
+  | 'enum'
+  | 'tuple'
+  | 'lazy'
+  | 'instanceOf'
+  | 'function'
+  | 'transform'
+  | 'pipe';
+
 /**
  * @type
  *
@@ -57,9 +292,37 @@ export interface ConstraintInterface {
 export type TypeDef<
   TContraint extends ConstraintInterface = ConstraintInterface,
 > = {
+  kind?: TypeKindType;
   description?: string;
+  examples?: UnknownType[];
   coerce?: (value: unknown) => UnknownType;
   constraint: TContraint;
+  refinements?: ConstraintInterface;
+  defaultValue?: () => UnknownType;
+  catchValue?: (ctx: CatchContextType) => UnknownType;
+  /**
+   * Default and catch values provided as static values, which, unlike
+   * functions, can be serialized
+   */
+  staticDefault?: { value: UnknownType };
+  staticCatch?: { value: UnknownType };
+};
+
+/**
+ * @type
+ *
+ * Context provided to built type `catch` fallback functions
+ */
+export type CatchContextType = {
+  /**
+   * Issues of the failed parse operation
+   */
+  errors: Issue[];
+
+  /**
+   * Value that failed to parse
+   */
+  input: unknown;
 };
 
 /**
@@ -74,12 +337,20 @@ export type PartrialTypeDef<
   constraint?: TContraint;
 };
 
+/**
+ * @internal
+ *
+ * Input type of built types created using `D` definition. Values of types
+ * which coerce their input are not restricted before being coerced.
+ */
+export type CoerceInputType<D, T> = D extends { coerce: true } ? unknown : T;
+
 /**
  * @type
  * Return type of the type safe parse method
  */
 export type SafeParseReturnType<T> = {
-  errors: UnknownType;
+  errors: Issue[] | undefined;
   success: boolean;
   data?: T | null;
 };
@@ -89,6 +360,229 @@ export type RawShapeType = {
   [k: string]: _AbstractType<UnknownType, UnknownType, UnknownType>;
 };
 
+/**
+ * @internal
+ *
+ * Object built type definition. It keeps a reference to the object shape
+ * and the input property map, so that the object can be introspected.
+ */
+export type ObjectTypeDef<T extends RawShapeType = RawShapeType> = TypeDef & {
+  shape: T;
+  propMap: Partial<{ [k in keyof T]: string }>;
+  unknownKeys?: UnknownKeysPolicyType;
+  catchall?: _AbstractType<UnknownType, UnknownType, UnknownType>;
+};
+
+/**
+ * @type
+ *
+ * Policy applied by object types on input keys that are not bound to
+ * object properties:
+ * - `strip` removes unknown keys from the output object
+ * - `strict` fails parsing values containing unknown keys
+ * - `passthrough` copies unknown keys to the output object
+ */
+export type UnknownKeysPolicyType = 'strip' | 'strict' | 'passthrough';
+
+/**
+ * @internal
+ *
+ * Union built type definition
+ */
+export type UnionTypeDef<
+  T extends readonly _AbstractType<UnknownType, UnknownType, UnknownType>[],
+> = TypeDef & {
+  options: T;
+};
+
+/**
+ * @internal
+ *
+ * Discriminated union built type definition
+ */
+export type DiscriminatedUnionTypeDef<
+  K extends string,
+  T extends readonly _ObjectType<RawShapeType>[],
+> = UnionTypeDef<T> & {
+  discriminator: K;
+};
+
+/** @internal */
+export type LiteralValueType =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined;
+
+/** @internal */
+export type EnumValueType = string | number;
+
+/**
+ * @internal
+ *
+ * Literal built type definition
+ */
+export type LiteralTypeDef<T extends LiteralValueType> = TypeDef & {
+  value: T;
+};
+
+/**
+ * @internal
+ *
+ * Enum built type definition
+ */
+export type EnumTypeDef<T extends EnumValueType> = TypeDef & {
+  values: readonly T[];
+  entries: Readonly<Record<string, T>>;
+};
+
+/**
+ * @internal
+ *
+ * Class constructor type supported by instance built types
+ */
+export type ClassType<T = unknown> = abstract new (...args: UnknownType[]) => T;
+
+/**
+ * @internal
+ *
+ * Class instance built type definition
+ */
+export type InstanceOfTypeDef<T extends ClassType> = TypeDef & {
+  ctor: T;
+};
+
+/**
+ * @internal
+ *
+ * Tuple built type definition
+ */
+export type TupleTypeDef<
+  T extends readonly _AbstractType<UnknownType, UnknownType, UnknownType>[],
+  R extends
+    | _AbstractType<UnknownType, UnknownType, UnknownType>
+    | undefined = undefined,
+> = TypeDef & {
+  items: T;
+  rest?: R;
+};
+
+/**
+ * @internal
+ *
+ * Array and set built types definition
+ */
+export type ArrayTypeDef<
+  T extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = TypeDef & {
+  item: T;
+};
+
+/**
+ * @internal
+ *
+ * Map built type definition
+ */
+export type MapTypeDef<
+  TKey extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+  TValue extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = TypeDef & {
+  key: TKey;
+  value: TValue;
+};
+
+/**
+ * @internal
+ *
+ * Record built type definition
+ */
+export type RecordTypeDef<
+  TKey extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+  TValue extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = TypeDef & {
+  key: TKey;
+  value: TValue;
+};
+
+/**
+ * @internal
+ *
+ * Lazy built type definition
+ */
+export type LazyTypeDef<
+  T extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = TypeDef & {
+  getter: () => T;
+};
+
+/**
+ * @internal
+ *
+ * Transform built type definition
+ */
+export type TransformTypeDef<
+  T extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+  TOutput = UnknownType,
+> = TypeDef & {
+  type: T;
+  transform: (value: TypeOf<T>) => TOutput | Promise<TOutput>;
+};
+
+/**
+ * @internal
+ *
+ * Pipe built type definition
+ */
+export type PipeTypeDef<
+  TIn extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+  TOut extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = TypeDef & {
+  in: TIn;
+  out: TOut;
+};
+
+/**
+ * @internal
+ *
+ * Function built type definition
+ */
+export type FunctionTypeDef<
+  TArgs extends _AbstractType<UnknownType[], UnknownType, UnknownType>,
+  TReturn extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = TypeDef & {
+  args: TArgs;
+  returns: TReturn;
+};
+
+/**
+ * @internal
+ *
+ * Compile time output type of a tuple built type
+ */
+export type TupleOutputType<
+  T extends readonly _AbstractType<UnknownType, UnknownType, UnknownType>[],
+  R extends
+    | _AbstractType<UnknownType, UnknownType, UnknownType>
+    | undefined = undefined,
+> =
+  R extends _AbstractType<infer U, UnknownType, UnknownType>
+    ? [...TupleItemsOutputType<T>, ...U[]]
+    : TupleItemsOutputType<T>;
+
+/** @internal */
+type TupleItemsOutputType<T extends readonly unknown[]> = {
+  -readonly [K in keyof T]: T[K] extends _AbstractType<
+    infer U,
+    UnknownType,
+    UnknownType
+  >
+    ? U
+    : never;
+};
+
 /**
  * TypeOf operator allows developper to get the compile time type information
  * of a built object
@@ -112,6 +606,30 @@ export type TypeOf<T extends _AbstractType<unknown, UnknownType, unknown>> =
  */
 export type { TypeOf as infer };
 
+/**
+ * InputOf operator allows developper to get the compile time type information
+ * of values accepted by a built object, before input properties are bound to
+ * output properties and before values are coerced.
+ *
+ * ```ts
+ * import {input, BuiltType} from '@azlabsjs/built-type';
+ *
+ * const person = BuiltType._object({
+ *    firstname: BuiltType._str(),
+ *    age: BuiltType._num({ coerce: true })
+ * }, { firstname: 'first_name' });
+ *
+ * export type PersonInput = input<typeof person>; // { first_name: string; age: unknown }
+ * ```
+ */
+export type InputOf<T extends _AbstractType<unknown, UnknownType, unknown>> =
+  T['_input'];
+
+/**
+ * Export the InputOf type operator as `input`
+ */
+export type { InputOf as input };
+
 /**
  * Parse value result type declaration
  */
@@ -136,6 +654,24 @@ export type ParseValueResultType<T = unknown, TError = unknown> = {
   aborted: boolean;
 };
 
+/** @internal */
+declare const _brand: unique symbol;
+
+/**
+ * @internal
+ *
+ * Brand name type supported by branded types
+ */
+export type BrandKeyType = string | number | symbol;
+
+/**
+ * Phantom type added to the output of branded types. It only exists at
+ * compile time, parsed values are not modified.
+ */
+export type Brand<B extends BrandKeyType> = {
+  readonly [_brand]: { readonly [k in B]: true };
+};
+
 /**
  * @internal
  *
@@ -155,7 +691,7 @@ export interface _AbstractType<
    * Copy the current object updating type definition and the parse function.
    */
   copy(
-    def: PartrialTypeDef,
+    def: Partial<Def>,
     _parseFn?: (value: unknown) => ParseValueResultType<TOutput>
   ): _AbstractType<TOutput, Def, TInput>;
 
@@ -171,7 +707,7 @@ export interface _AbstractType<
    *
    * ```
    */
-  parse<T>(value: T | TInput): TOutput;
+  parse<T>(value: T | TInput, options?: ParseOptions): TOutput;
 
   /**
    * Parse user provided value using the built-type.
@@ -185,9 +721,48 @@ export interface _AbstractType<
    * if (result.success) {
    *  // TODO: interact with the parse result
    * }
+   *
+   * // issues messages are reported using the provided locale
+   * type.safeParse({ ... }, { locale: 'fr' });
+   * ```
+   */
+  safeParse<T>(
+    value: T | TInput,
+    options?: ParseOptions
+  ): SafeParseReturnType<TOutput>;
+
+  /**
+   * Asynchronously parse user provided value using the built-type.
+   * The returned promise rejects with a `ParseError` if the parsing fails.
+   *
+   * ```ts
+   * const type = BuiltType._object({ ... })
+   *
+   * // parsing a value using the type built type
+   * const result = await type.parseAsync({ ... }, { signal });
    * ```
    */
-  safeParse<T>(value: T | TInput): SafeParseReturnType<TOutput>;
+  parseAsync<T>(value: T | TInput, options?: ParseOptions): Promise<TOutput>;
+
+  /**
+   * Asynchronously parse user provided value using the built-type. Unlike
+   * `safeParse()`, asynchronous constraint rules are supported, object properties
+   * and collection items are parsed concurrently.
+   *
+   * The returned promise rejects with the abort reason if the parse operation
+   * is cancelled using the `signal` option.
+   *
+   * ```ts
+   * const type = BuiltType._object({ ... })
+   *
+   * // parsing a value using the type built type
+   * const result = await type.safeParseAsync({ ... }); // `SafeParseReturnType`
+   * ```
+   */
+  safeParseAsync<T>(
+    value: T | TInput,
+    options?: ParseOptions
+  ): Promise<SafeParseReturnType<TOutput>>;
 
   /**
    * `isOptional` returns boolean value indicating whether the
@@ -204,29 +779,309 @@ export interface _AbstractType<
   /**
    * Add a nil `undefined|null` constraint to the type builder instance
    */
-  nullable(): _AbstractType<TOutput | null, Def, TInput>;
+  nullable(): _AbstractType<TOutput | null, Def, TInput | null>;
 
   /**
    * Add a nullable `null` constraint to the type builder instance
    */
-  nullish(): _AbstractType<TOutput | null | undefined, Def, TInput>;
+  nullish(): _AbstractType<
+    TOutput | null | undefined,
+    Def,
+    TInput | null | undefined
+  >;
+
+  /**
+   * Add an `undefined` constraint to the type builder instance. Object
+   * properties using optional types are optional keys of the object type.
+   *
+   * ```ts
+   * const person = BuiltType._object({
+   *    firstname: BuiltType._str(),
+   *    middlename: BuiltType._str().optional(),
+   * });
+   *
+   * type Person = infer<typeof person>; // { firstname: string; middlename?: string }
+   * ```
+   */
+  optional(): _AbstractType<TOutput | undefined, Def, TInput | undefined>;
 
   /**
    * Describe the built-type
    */
   describe(description: string): _AbstractType<TOutput, Def, TInput>;
+
+  /**
+   * Attach example input values to the built-type. Examples are exported
+   * with JSON schemas and OpenAPI components.
+   *
+   * ```ts
+   * const email = BuiltType._str().examples(['john@example.com']);
+   * ```
+   */
+  examples(values: TInput[]): _AbstractType<TOutput, Def, TInput>;
+
+  /**
+   * Add a custom rule to the type. Unlike constraint rules, refinements are
+   * applied on parsed output values, once parsing succeeds.
+   *
+   * ```ts
+   * const even = BuiltType._num().refine((value) => value % 2 === 0, 'Expect an even number');
+   * ```
+   */
+  refine(
+    fn: (value: TOutput) => boolean,
+    message?: string | ConstraintIssueType
+  ): _AbstractType<TOutput, Def, TInput>;
+
+  /**
+   * Add a custom rule to the type, which can report multiple issues with
+   * their own paths using the provided context. Like `refine()` rules, it is
+   * applied on parsed output values.
+   *
+   * ```ts
+   * const signup = BuiltType._object({
+   *    password: BuiltType._str(),
+   *    confirm: BuiltType._str(),
+   * }).superRefine((value, ctx) => {
+   *    if (value.password !== value.confirm) {
+   *      ctx.addIssue({ message: 'Passwords do not match', path: ['confirm'] });
+   *    }
+   * });
+   * ```
+   */
+  superRefine(
+    fn: (value: TOutput, ctx: RefinementContextType) => void | Promise<void>
+  ): _AbstractType<TOutput, Def, TInput>;
+
+  /**
+   * Set the value used when parsing `undefined` values. The default value is
+   * substituted before coercion and constraints are applied, therefore parsed
+   * values are never `undefined`.
+   *
+   * ```ts
+   * const port = BuiltType._num().default(8080);
+   * port.parse(undefined); // 8080
+   *
+   * const tags = BuiltType._array(BuiltType._str()).default(() => []);
+   * ```
+   */
+  default(
+    value: Exclude<TOutput, undefined> | (() => Exclude<TOutput, undefined>)
+  ): _AbstractType<Exclude<TOutput, undefined>, Def, TInput | undefined>;
+
+  /**
+   * Set the value returned when parsing fails. When `value` is a function,
+   * it is called with the swallowed parse errors and the input value.
+   *
+   * ```ts
+   * const port = BuiltType._num().catch(({ errors }) => {
+   *    console.warn(errors);
+   *    return 8080;
+   * });
+   * port.parse('abc'); // 8080
+   * ```
+   */
+  catch(
+    value: TOutput | ((ctx: CatchContextType) => TOutput)
+  ): _AbstractType<TOutput, Def, TInput>;
+
+  /**
+   * Creates a type that maps values parsed by the current type using `fn`.
+   * The created type output is the `fn` return type, while its input remains
+   * the current type input. Errors thrown by `fn` are reported as parse errors.
+   * Promise returning functions are only supported by asynchronous parse methods.
+   *
+   * ```ts
+   * const length = BuiltType._str().transform((value) => value.length);
+   * length.parse('Hello'); // 5
+   * ```
+   */
+  transform<U>(
+    fn: (value: TOutput) => U | Promise<U>
+  ): _AbstractType<
+    U,
+    TransformTypeDef<_AbstractType<UnknownType, UnknownType, UnknownType>, U>,
+    TInput
+  >;
+
+  /**
+   * Creates a type that parses values using the current type, and parses
+   * the current type output using `type`.
+   *
+   * ```ts
+   * const age = BuiltType._str()
+   *    .transform((value) => parseInt(value, 10))
+   *    .pipe(BuiltType._num({ constraint: new NumberConstraint().min(18) }));
+   *
+   * age.parse('21'); // 21
+   * ```
+   */
+  pipe<T extends _AbstractType<UnknownType, UnknownType, UnknownType>>(
+    type: T
+  ): _AbstractType<
+    TypeOf<T>,
+    PipeTypeDef<_AbstractType<UnknownType, UnknownType, UnknownType>, T>,
+    TInput
+  >;
+
+  /**
+   * Add a compile time `B` brand to the type output. Branded values can only
+   * be obtained by parsing values using the built-type.
+   *
+   * ```ts
+   * const UserId = BuiltType._str().brand<'UserId'>();
+   * type UserId = infer<typeof UserId>;
+   *
+   * function getUser(id: UserId) { ... }
+   *
+   * getUser(UserId.parse('usr_1')); // Ok
+   * getUser('usr_1'); // Compile time error
+   * ```
+   */
+  brand<B extends BrandKeyType>(): _AbstractType<
+    TOutput & Brand<B>,
+    Def,
+    TInput
+  >;
 }
 
 /**
  * @internal
  *
- * Object type builder type declaration
+ * Compile time output type of an object built type
+ */
+export type ObjectOutputType<T extends RawShapeType> = FlattenType<
+  {
+    [k in keyof T as undefined extends TypeOf<T[k]> ? never : k]: TypeOf<T[k]>;
+  } & {
+    [k in keyof T as undefined extends TypeOf<T[k]> ? k : never]?: TypeOf<T[k]>;
+  }
+>;
+
+/**
+ * @internal
+ *
+ * Compile time input type of an object built type, in which properties
+ * are named using their `P` input key
  */
-export type _ObjectType<T extends RawShapeType> = _AbstractType<
+export type ObjectInputType<
+  T extends RawShapeType,
+  P extends PropMapType = EmptyPropMapType,
+> = FlattenType<
   {
-    [Prop in keyof T]: TypeOf<T[Prop]>;
-  },
-  TypeDef<ConstraintInterface>
+    [k in keyof T as undefined extends InputOf<T[k]>
+      ? never
+      : InputKeyType<T, P, k>]: InputOf<T[k]>;
+  } & {
+    [k in keyof T as undefined extends InputOf<T[k]>
+      ? InputKeyType<T, P, k>
+      : never]?: InputOf<T[k]>;
+  }
+>;
+
+/**
+ * @internal
+ *
+ * Object properties to input keys bindings
+ */
+export type PropMapType<T extends RawShapeType = RawShapeType> = Partial<{
+  [k in keyof T]: string;
+}>;
+
+/**
+ * @internal
+ *
+ * Properties to input keys bindings of objects which input keys are
+ * their property names
+ */
+export type EmptyPropMapType = Record<never, never>;
+
+/** @internal */
+type InputKeyType<
+  T extends RawShapeType,
+  P extends PropMapType,
+  k extends keyof T,
+> = k extends keyof P ? (P[k] extends string ? P[k] : k) : k;
+
+/** @internal */
+type FlattenType<T> = { [k in keyof T]: T[k] };
+
+/**
+ * @internal
+ *
+ * Object shape resulting from extending `T` shape with `U` shape
+ */
+export type ExtendShapeType<T extends RawShapeType, U extends RawShapeType> = {
+  [k in keyof T | keyof U]: k extends keyof U
+    ? U[k]
+    : k extends keyof T
+      ? T[k]
+      : never;
+};
+
+/**
+ * @internal
+ *
+ * Object shape in which `K` properties support null and undefined values
+ */
+export type PartialShapeType<
+  T extends RawShapeType,
+  K extends keyof T = keyof T,
+> = {
+  [k in keyof T]: k extends K
+    ? _AbstractType<
+        TypeOf<T[k]> | null | undefined,
+        T[k]['_def'],
+        T[k]['_input']
+      >
+    : T[k];
+};
+
+/**
+ * @internal
+ *
+ * Object shape in which properties and nested object properties support null
+ * and undefined values
+ */
+export type DeepPartialShapeType<T extends RawShapeType> = {
+  [k in keyof T]: T[k] extends _ObjectType<infer S, UnknownType>
+    ? _AbstractType<
+        ObjectOutputType<DeepPartialShapeType<S>> | null | undefined,
+        ObjectTypeDef<DeepPartialShapeType<S>>
+      >
+    : _AbstractType<
+        TypeOf<T[k]> | null | undefined,
+        T[k]['_def'],
+        T[k]['_input']
+      >;
+};
+
+/**
+ * @internal
+ *
+ * Object shape in which `K` properties does not support null and undefined values
+ */
+export type RequiredShapeType<
+  T extends RawShapeType,
+  K extends keyof T = keyof T,
+> = {
+  [k in keyof T]: k extends K
+    ? _AbstractType<NonNullable<TypeOf<T[k]>>, T[k]['_def'], T[k]['_input']>
+    : T[k];
+};
+
+/**
+ * @internal
+ *
+ * Object type builder type declaration
+ */
+export type _ObjectType<
+  T extends RawShapeType,
+  P extends PropMapType = EmptyPropMapType,
+> = _AbstractType<
+  ObjectOutputType<T>,
+  ObjectTypeDef<T>,
+  ObjectInputType<T, P>
 > & {
   /**
    * TODO: Provide a better implementation to detect the reverseType instance type
@@ -234,6 +1089,177 @@ export type _ObjectType<T extends RawShapeType> = _AbstractType<
    * The reverse type of the current object
    */
   reverseType: _AbstractType<Record<string, UnknownType>, UnknownType, T>;
+
+  /**
+   * Object shape used to parse object properties
+   */
+  readonly shape: T;
+
+  /**
+   * Creates a new object type adding `shape` properties to the current
+   * object properties. Properties defined in both shapes are replaced by
+   * the `shape` property.
+   */
+  extend<
+    U extends RawShapeType,
+    const PU extends PropMapType<U> = EmptyPropMapType,
+  >(
+    shape: U,
+    propMap?: PU
+  ): _ObjectType<ExtendShapeType<T, U>, Omit<P, keyof U> & PU>;
+
+  /**
+   * Creates a new object type adding `other` object properties and
+   * input property bindings to the current object.
+   */
+  merge<U extends RawShapeType, PU extends PropMapType<U>>(
+    other: _ObjectType<U, PU>
+  ): _ObjectType<ExtendShapeType<T, U>, Omit<P, keyof U> & PU>;
+
+  /**
+   * Creates a new object type using only `keys` properties
+   */
+  pick<K extends keyof T>(
+    keys: readonly K[]
+  ): _ObjectType<Pick<T, K>, Pick<P, K & keyof P>>;
+
+  /**
+   * Creates a new object type without `keys` properties
+   */
+  omit<K extends keyof T>(
+    keys: readonly K[]
+  ): _ObjectType<Omit<T, K>, Omit<P, K>>;
+
+  /**
+   * Creates a new object type in which all properties, or `keys` properties
+   * if provided, support null and undefined values
+   */
+  partial(): _ObjectType<PartialShapeType<T>, P>;
+  partial<K extends keyof T>(
+    keys: readonly K[]
+  ): _ObjectType<PartialShapeType<T, K>, P>;
+
+  /**
+   * Creates a new object type in which all properties, including nested object
+   * properties, support null and undefined values
+   */
+  deepPartial(): _ObjectType<DeepPartialShapeType<T>, P>;
+
+  /**
+   * Creates a new object type that fails parsing values containing keys that
+   * are not bound to object properties. Errors list the unknown keys.
+   */
+  strict(): _ObjectType<T, P>;
+
+  /**
+   * Creates a new object type that copies keys that are not bound to object
+   * properties to the output object
+   */
+  passthrough(): _ObjectType<T, P>;
+
+  /**
+   * Creates a new object type that removes keys that are not bound to object
+   * properties from the output object. It's the default object types behavior
+   */
+  strip(): _ObjectType<T, P>;
+
+  /**
+   * Creates a new object type that parses values of keys that are not bound to
+   * object properties using `type`, and copies them to the output object
+   */
+  catchall(
+    type: _AbstractType<UnknownType, UnknownType, UnknownType>
+  ): _ObjectType<T, P>;
+
+  /**
+   * Creates a new object type in which all properties, or `keys` properties
+   * if provided, does not support null and undefined values
+   */
+  required(): _ObjectType<RequiredShapeType<T>, P>;
+  required<K extends keyof T>(
+    keys: readonly K[]
+  ): _ObjectType<RequiredShapeType<T, K>, P>;
+};
+
+/**
+ * @internal
+ *
+ * Enum type builder type declaration
+ */
+export type _EnumType<T extends EnumValueType> = _AbstractType<
+  T,
+  EnumTypeDef<T>
+> & {
+  /**
+   * List of values supported by the enum type
+   */
+  readonly options: readonly T[];
+
+  /**
+   * Enum like object, which maps enum keys to enum values
+   */
+  readonly enum: Readonly<Record<string, T>>;
+
+  /**
+   * Creates a new enum type that only supports the provided values
+   */
+  extract<U extends T>(values: readonly U[]): _EnumType<U>;
+
+  /**
+   * Creates a new enum type that supports all the current enum values
+   * except the provided ones
+   */
+  exclude<U extends T>(values: readonly U[]): _EnumType<Exclude<T, U>>;
+};
+
+/**
+ * @internal
+ *
+ * Compile time output type of a function built type
+ */
+export type FunctionOutputType<
+  TArgs extends _AbstractType<UnknownType[], UnknownType, UnknownType>,
+  TReturn extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = (...args: TypeOf<TArgs>) => TypeOf<TReturn>;
+
+/**
+ * @internal
+ *
+ * Function type builder type declaration
+ */
+export type _FunctionType<
+  TArgs extends _AbstractType<UnknownType[], UnknownType, UnknownType>,
+  TReturn extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = _AbstractType<
+  FunctionOutputType<TArgs, TReturn>,
+  FunctionTypeDef<TArgs, TReturn>
+> & {
+  /**
+   * Tuple type used to parse the function arguments
+   */
+  readonly parameters: TArgs;
+
+  /**
+   * Type used to parse the function return value
+   */
+  readonly returnType: TReturn;
+
+  /**
+   * Wraps `fn` in a function that parses its arguments and its return value
+   * using the function type. Promise returning functions return a promise
+   * of the parsed resolved value.
+   */
+  implement<
+    F extends (
+      ...args: TypeOf<TArgs>
+    ) => TypeOf<TReturn> | Promise<TypeOf<TReturn>>,
+  >(
+    fn: F
+  ): (
+    ...args: TypeOf<TArgs>
+  ) => ReturnType<F> extends Promise<unknown>
+    ? Promise<TypeOf<TReturn>>
+    : TypeOf<TReturn>;
 };
 
 /**
@@ -248,4 +1274,20 @@ export type AbstractType<
 /**
  * Exported object builder type declaration
  */
-export type ObjectType<T extends RawShapeType> = _ObjectType<T>;
+export type ObjectType<
+  T extends RawShapeType,
+  P extends PropMapType = EmptyPropMapType,
+> = _ObjectType<T, P>;
+
+/**
+ * Exported enum builder type declaration
+ */
+export type EnumType<T extends EnumValueType> = _EnumType<T>;
+
+/**
+ * Exported function builder type declaration
+ */
+export type FunctionType<
+  TArgs extends _AbstractType<UnknownType[], UnknownType, UnknownType>,
+  TReturn extends _AbstractType<UnknownType, UnknownType, UnknownType>,
+> = _FunctionType<TArgs, TReturn>;
@@ -0,0 +1,408 @@
+import { TypeAny } from './base';
+import {
+  ArrayTypeDef,
+  EnumTypeDef,
+  FunctionTypeDef,
+  InstanceOfTypeDef,
+  LazyTypeDef,
+  LiteralTypeDef,
+  LiteralValueType,
+  MapTypeDef,
+  ObjectTypeDef,
+  PipeTypeDef,
+  TransformTypeDef,
+  TupleTypeDef,
+  TypeDef,
+  UnionTypeDef,
+} from './types';
+
+/**
+ * @type
+ *
+ * Options used when printing TypeScript declarations of built types
+ */
+export type PrintTypeScriptOptionsType = {
+  /**
+   * Name of the declared type
+   */
+  name: string;
+
+  /**
+   * When true, the declaration of the values accepted by the type, named
+   * `<name>Input`, is printed after the declaration of the values returned
+   * by the type. Defaults to `false`
+   */
+  input?: boolean;
+};
+
+/** @internal */
+type PrintContextType = {
+  io: 'input' | 'output';
+  name: string;
+  declarations: string[];
+  refs: Map<TypeAny, string>;
+  count: number;
+};
+
+/** @internal */
+type PropertyNodeType = {
+  _type?: TypeAny;
+  properties: Map<string, PropertyNodeType>;
+  optional: boolean;
+};
+
+/** @internal */
+const INDENT = '  ';
+
+/**
+ * @internal
+ *
+ * Renders a JSDoc comment at the provided indentation
+ */
+function printDoc(description: string | undefined, indent: string) {
+  if (!description) {
+    return '';
+  }
+  const lines = description.replace(/\*\//g, '*\\/').split('\n');
+  return lines.length === 1
+    ? `${indent}/** ${lines[0]} */\n`
+    : `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+/** @internal */
+function printKey(key: string) {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** @internal */
+function printLiteral(value: LiteralValueType) {
+  switch (typeof value) {
+    case 'bigint':
+      return `${value}n`;
+    case 'symbol':
+      return 'symbol';
+    case 'undefined':
+      return 'undefined';
+    default:
+      return JSON.stringify(value);
+  }
+}
+
+/**
+ * @internal
+ *
+ * Wraps union and function types in parentheses, when used as array items
+ */
+function group(value: string) {
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (
+      depth === 0 &&
+      (value.startsWith(' | ', i) || value.startsWith(' => ', i))
+    ) {
+      return `(${value})`;
+    }
+    if ('([{<'.includes(value[i])) {
+      depth += 1;
+    } else if (')]}>'.includes(value[i]) && value[i - 1] !== '=') {
+      depth -= 1;
+    }
+  }
+  return value;
+}
+
+/**
+ * @internal
+ *
+ * Checks if `undefined` values are part of the printed type
+ */
+function isOptional(ctx: PrintContextType, _type: TypeAny) {
+  // output values of types providing a default value are never undefined
+  return (
+    _type.isOptional() &&
+    (ctx.io === 'input' || typeof _type._def.defaultValue !== 'function')
+  );
+}
+
+/**
+ * @internal
+ *
+ * Transform, pipe and lazy types delegate to the types they wrap, which
+ * print their own nil values
+ */
+function isDelegate(_type: TypeAny) {
+  return ['transform', 'pipe', 'lazy'].includes(
+    (_type._def as TypeDef).kind as string
+  );
+}
+
+/**
+ * @internal
+ *
+ * Creates the properties tree of an object type. Input keys containing `.`
+ * are read from nested input objects, therefore they create nested nodes.
+ */
+function createPropertyTree(ctx: PrintContextType, def: ObjectTypeDef) {
+  const root: PropertyNodeType = { properties: new Map(), optional: false };
+  for (const key in def.shape) {
+    const _type = def.shape[key] as TypeAny;
+    const segments =
+      ctx.io === 'output'
+        ? [key]
+        : ((def.propMap as Record<string, string>)[key] ?? key).split('.');
+    const optional = isOptional(ctx, _type);
+    let node = root;
+    for (const segment of segments.slice(0, -1)) {
+      const child = node.properties.get(segment) ?? {
+        properties: new Map(),
+        optional: true,
+      };
+      child.optional = child.optional && optional;
+      node.properties.set(segment, child);
+      node = child;
+    }
+    node.properties.set(segments[segments.length - 1], {
+      _type,
+      properties: new Map(),
+      optional,
+    });
+  }
+  return root;
+}
+
+/** @internal */
+function printProperties(
+  ctx: PrintContextType,
+  node: PropertyNodeType,
+  indent: string,
+  index?: string
+) {
+  const lines: string[] = [];
+  for (const [key, child] of node.properties) {
+    const description = child._type?._def.description;
+    const value = child._type
+      ? printType(ctx, child._type, indent + INDENT, false)
+      : printProperties(ctx, child, indent + INDENT);
+    lines.push(
+      `${printDoc(description, indent + INDENT)}${indent + INDENT}${printKey(key)}${child.optional ? '?' : ''}: ${value};`
+    );
+  }
+  if (index) {
+    lines.push(`${indent + INDENT}[key: string]: ${index};`);
+  }
+  return lines.length === 0 ? '{}' : `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/** @internal */
+function printObject(
+  ctx: PrintContextType,
+  def: ObjectTypeDef,
+  indent: string
+) {
+  const index = def.catchall
+    ? printType(ctx, def.catchall as TypeAny, indent + INDENT)
+    : def.unknownKeys === 'passthrough'
+      ? 'unknown'
+      : undefined;
+  return printProperties(ctx, createPropertyTree(ctx, def), indent, index);
+}
+
+/**
+ * @internal
+ *
+ * Lazy types are printed as references to their own declaration, so that
+ * recursive types can be printed
+ */
+function printLazy(ctx: PrintContextType, _type: TypeAny) {
+  let name = ctx.refs.get(_type);
+  if (!name) {
+    ctx.count += 1;
+    name = `${ctx.name}Type${ctx.count}`;
+    // the reference is registered before printing the resolved type, so that
+    // recursive types reference the declaration instead of being printed again
+    ctx.refs.set(_type, name);
+    ctx.declarations.push(
+      printDeclaration(ctx, (_type._def as LazyTypeDef<TypeAny>).getter(), name)
+    );
+  }
+  return name;
+}
+
+/** @internal */
+function printKind(
+  ctx: PrintContextType,
+  _type: TypeAny,
+  indent: string
+): string {
+  const def = _type._def as TypeDef;
+  switch (def.kind) {
+    case 'string':
+    case 'number':
+    case 'bigint':
+    case 'boolean':
+    case 'symbol':
+    case 'null':
+    case 'undefined':
+      return def.kind;
+    case 'date':
+      return 'Date';
+    case 'mixed':
+      return 'unknown';
+    case 'array':
+      return `${group(printType(ctx, (def as ArrayTypeDef<TypeAny>).item, indent))}[]`;
+    case 'set':
+      return `Set<${printType(ctx, (def as ArrayTypeDef<TypeAny>).item, indent)}>`;
+    case 'map':
+    case 'record': {
+      const { key, value } = def as MapTypeDef<TypeAny, TypeAny>;
+      return `${def.kind === 'map' ? 'Map' : 'Record'}<${printType(ctx, key, indent)}, ${printType(ctx, value, indent)}>`;
+    }
+    case 'tuple': {
+      const { items, rest } = def as TupleTypeDef<TypeAny[], TypeAny>;
+      return `[${[
+        ...items.map((item) => printType(ctx, item, indent)),
+        ...(rest ? [`...${group(printType(ctx, rest, indent))}[]`] : []),
+      ].join(', ')}]`;
+    }
+    case 'object':
+      return printObject(ctx, def as ObjectTypeDef, indent);
+    case 'union':
+    case 'discriminatedUnion':
+      return (def as UnionTypeDef<TypeAny[]>).options
+        .map((option) => printType(ctx, option, indent))
+        .join(' | ');
+    case 'literal':
+      return printLiteral((def as LiteralTypeDef<LiteralValueType>).value);
+    case 'enum':
+      return (def as EnumTypeDef<string | number>).values
+        .map((value) => printLiteral(value))
+        .join(' | ');
+    case 'instanceOf':
+      return (
+        (def as InstanceOfTypeDef<new () => unknown>).ctor.name || 'object'
+      );
+    case 'function': {
+      const { args, returns } = def as FunctionTypeDef<TypeAny, TypeAny>;
+      return `(...args: ${printType(ctx, args, indent)}) => ${printType(ctx, returns, indent)}`;
+    }
+    case 'lazy':
+      return printLazy(ctx, _type);
+    case 'transform':
+      // values returned by transform functions cannot be described
+      return ctx.io === 'output'
+        ? 'unknown'
+        : printType(ctx, (def as TransformTypeDef<TypeAny>).type, indent);
+    case 'pipe': {
+      const { in: _in, out } = def as PipeTypeDef<TypeAny, TypeAny>;
+      return printType(ctx, ctx.io === 'output' ? out : _in, indent);
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * @internal
+ *
+ * Prints the type, adding `null` and `undefined` members to types accepting
+ * them. `undefined` is not added to object properties, which are marked as
+ * optional instead.
+ */
+function printType(
+  ctx: PrintContextType,
+  _type: TypeAny,
+  indent: string,
+  undefinedMember = true
+): string {
+  const value = printKind(ctx, _type, indent);
+  const members = [value];
+  // union types already print their nil members
+  const includes = (member: string) =>
+    value === member ||
+    value.startsWith(`${member} | `) ||
+    value.endsWith(` | ${member}`) ||
+    value.includes(` | ${member} | `);
+  if (!isDelegate(_type)) {
+    // null values are printed using the constraint flags, as object types
+    // coerce null values without returning them
+    if (
+      (_type._def as TypeDef).constraint.acceptsNull === true &&
+      !includes('null')
+    ) {
+      members.push('null');
+    }
+    if (undefinedMember && isOptional(ctx, _type) && !includes('undefined')) {
+      members.push('undefined');
+    }
+  }
+  return members.join(' | ');
+}
+
+/** @internal */
+function printDeclaration(ctx: PrintContextType, _type: TypeAny, name: string) {
+  const doc = printDoc(_type._def.description, '');
+  const { kind, constraint } = _type._def as TypeDef;
+  return kind === 'object' && constraint.acceptsNull !== true
+    ? `${doc}export interface ${name} ${printKind(ctx, _type, '')}`
+    : `${doc}export type ${name} = ${printType(ctx, _type, '')};`;
+}
+
+/**
+ * Prints the TypeScript declaration of the values returned by the built type.
+ * Object types are declared as interfaces, and type descriptions are printed
+ * as JSDoc comments. Recursive types created using `BuiltType._lazy()` are
+ * declared separately.
+ *
+ * ```ts
+ * import { BuiltType, printTypeScript } from '@azlabsjs/built-type';
+ *
+ * const user = BuiltType._object(
+ *    {
+ *      name: BuiltType._str().describe('User full name'),
+ *      age: BuiltType._num().nullish(),
+ *    },
+ *    { name: 'full_name' }
+ * );
+ *
+ * printTypeScript(user, { name: 'User', input: true });
+ * // export interface User {
+ * //   /** User full name *\/
+ * //   name: string;
+ * //   age?: number | null;
+ * // }
+ * //
+ * // export interface UserInput {
+ * //   /** User full name *\/
+ * //   full_name: string;
+ * //   age?: number | null;
+ * // }
+ * ```
+ */
+export function printTypeScript(
+  _type: TypeAny,
+  options: PrintTypeScriptOptionsType
+): string {
+  const declarations: string[] = [];
+  for (const [io, name] of [
+    ['output', options.name],
+    ...(options.input ? [['input', `${options.name}Input`]] : []),
+  ] as ['input' | 'output', string][]) {
+    const ctx: PrintContextType = {
+      io,
+      name,
+      declarations: [],
+      refs: new Map(),
+      count: 0,
+    };
+    // lazy types printed at the root are declared using the provided name
+    const root =
+      (_type._def as TypeDef).kind === 'lazy'
+        ? (_type._def as LazyTypeDef<TypeAny>).getter()
+        : _type;
+    if (root !== _type) {
+      ctx.refs.set(_type, name);
+    }
+    declarations.push(printDeclaration(ctx, root, name), ...ctx.declarations);
+  }
+  return `${declarations.join('\n\n')}\n`;
+}
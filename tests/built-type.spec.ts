@@ -1,10 +1,34 @@
 import {
+  AbstractType,
+  BigIntConstraint,
+  ArrayConstraint,
   BuiltType,
+  DateContraint,
   NumberConstraint,
+  ObjectConstraint,
+  ObjectType,
   Patterns,
   SetConstraint,
   StrConstraint,
+  InputOf,
+  Issue,
+  TypeDef,
+  TypeOf,
+  flatten,
+  format,
+  fromJSONSchema,
+  generate,
+  isParseError,
+  printTypeScript,
+  registerCatalog,
+  registerFunction,
+  revive,
+  serialize,
+  setDefaultLocale,
+  toJSONSchema,
+  toOpenAPIComponents,
 } from '../src';
+import { ParseError } from '../src/errors';
 
 describe('BuiltType', () => {
   it('Create a built type instance for string value and expect type instance to parse string value and number value with coercing and fails on number wihtout coercing', () => {
@@ -126,4 +150,1662 @@ describe('BuiltType', () => {
     expect(source.address.email).toEqual('john-peter@example.com');
     expect(source.grades).toEqual([]);
   });
+
+  it('should parse value using the first union member that accepts the value', () => {
+    const value = BuiltType._union([BuiltType._str(), BuiltType._num()]);
+    const data: string | number = value.parse(3);
+    expect(data).toEqual(3);
+    expect(value.parse('3')).toEqual('3');
+
+    const result = value.safeParse(true);
+    expect(result.success).toEqual(false);
+    expect(result.errors?.map((issue) => issue.code)).toEqual([
+      'invalid_union',
+    ]);
+    expect(result.errors?.[0].params?.unionErrors).toHaveLength(2);
+    expect(value.safeParse(undefined).success).toEqual(false);
+    expect(value.safeParse(null).errors).toEqual([
+      {
+        code: 'invalid_type',
+        path: [],
+        message: 'Value must be of type string | number, null given',
+        expected: 'string | number',
+        received: 'null',
+      },
+    ]);
+    expect(value.nullish().safeParse(undefined).success).toEqual(true);
+
+    const nullable = BuiltType._union([
+      BuiltType._str(),
+      BuiltType._num(),
+    ]).nullable();
+    expect(nullable.safeParse(null)).toEqual({
+      success: true,
+      errors: undefined,
+      data: null,
+    });
+    expect(nullable.parse('3')).toEqual('3');
+  });
+
+  it('should asynchronously parse null values of nullable union types', async () => {
+    const value = BuiltType._union([BuiltType._str(), BuiltType._num()]);
+    expect((await value.safeParseAsync(null)).success).toEqual(false);
+    expect(await value.nullable().parseAsync(null)).toEqual(null);
+  });
+
+  it('should parse value using the union member matching the discriminator', () => {
+    const kind = (k: string) =>
+      BuiltType._str({
+        constraint: new StrConstraint().pattern(new RegExp(`^${k}$`)),
+      });
+    const payment = BuiltType._discriminatedUnion('kind', [
+      BuiltType._object({ kind: kind('card'), pan: BuiltType._str() }),
+      BuiltType._object(
+        { kind: kind('bank'), iban: BuiltType._str() },
+        { iban: 'account_number' }
+      ),
+    ]);
+
+    const bank = payment.parse({ kind: 'bank', account_number: 'FR76' });
+    expect(bank).toEqual({ kind: 'bank', iban: 'FR76' });
+
+    let result = payment.safeParse({ kind: 'card', pan: 4 });
+    expect(result.success).toEqual(false);
+    expect(result.errors?.map((issue) => issue.path)).toEqual([['pan']]);
+
+    result = payment.safeParse({ kind: 'cash' });
+    expect(result.success).toEqual(false);
+    expect(result.errors?.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: 'invalid_union_discriminator', path: ['kind'] },
+    ]);
+  });
+
+  it('should only parse values that are defined by literal and enum types', () => {
+    const draft = BuiltType._literal('draft');
+    const value: 'draft' = draft.parse('draft');
+    expect(value).toEqual('draft');
+    expect(draft.safeParse('published').success).toEqual(false);
+
+    const status = BuiltType._enum(['draft', 'published', 'archived']);
+    expect(status.options).toEqual(['draft', 'published', 'archived']);
+    expect(status.enum.published).toEqual('published');
+    expect(status.safeParse('deleted').success).toEqual(false);
+
+    const visible = status.exclude(['archived']);
+    const result: 'draft' | 'published' = visible.parse('draft');
+    expect(result).toEqual('draft');
+    expect(visible.options).toEqual(['draft', 'published']);
+    expect(visible.safeParse('archived').success).toEqual(false);
+    expect(status.extract(['archived']).options).toEqual(['archived']);
+  });
+
+  it('should parse typescript enum values using native enum type', () => {
+    enum Direction {
+      Up,
+      Down,
+    }
+    enum Status {
+      Draft = 'draft',
+      Published = 'published',
+    }
+    const direction = BuiltType._nativeEnum(Direction);
+    expect(direction.options).toEqual([Direction.Up, Direction.Down]);
+    expect(direction.parse(1)).toEqual(Direction.Down);
+    expect(direction.safeParse('Up').success).toEqual(false);
+
+    const status = BuiltType._nativeEnum(Status);
+    const value: Status = status.parse('published');
+    expect(value).toEqual(Status.Published);
+    expect(status.safeParse('draft ').success).toEqual(false);
+  });
+
+  it('should parse tuple items using item position types', () => {
+    const coordinates = BuiltType._tuple([BuiltType._num(), BuiltType._num()]);
+    const value: [number, number] = coordinates.parse([6.13365, 1.22311]);
+    expect(value).toEqual([6.13365, 1.22311]);
+    expect(coordinates.safeParse([6.13365]).success).toEqual(false);
+    expect(coordinates.safeParse([6.13365, 1.22311, 0]).success).toEqual(false);
+
+    const tuple = BuiltType._tuple(
+      [BuiltType._str(), BuiltType._num()],
+      BuiltType._bool()
+    );
+    const data: [string, number, ...boolean[]] = tuple.parse([
+      'lat',
+      0,
+      true,
+      false,
+    ]);
+    expect(data).toEqual(['lat', 0, true, false]);
+    expect(tuple.parse(['lat', 0])).toEqual(['lat', 0]);
+
+    const result = tuple.safeParse([1, 0, true, 'false']);
+    expect(result.success).toEqual(false);
+    expect(result.errors?.map((issue) => issue.path)).toEqual([[0], [3]]);
+  });
+
+  it('should allow omitting trailing optional tuple items', () => {
+    const tuple = BuiltType._tuple([
+      BuiltType._str(),
+      BuiltType._num().optional(),
+      BuiltType._bool().default(false),
+    ]);
+    expect(tuple.parse(['a'])).toEqual(['a', undefined, false]);
+    expect(tuple.parse(['a', 1, true])).toEqual(['a', 1, true]);
+    expect(tuple.safeParse([]).success).toEqual(false);
+    expect(tuple.safeParse(['a', 1, true, 0]).success).toEqual(false);
+    expect(
+      BuiltType._tuple([BuiltType._str(), BuiltType._num().optional()]).parse([
+        'a',
+      ])
+    ).toEqual(['a']);
+    expect(
+      BuiltType._tuple([BuiltType._str()]).nullable().safeParse(null)
+    ).toEqual({ success: true, errors: undefined, data: null });
+  });
+
+  it('should parse plain object keys and values using record key and value types', () => {
+    const translations = BuiltType._record(
+      BuiltType._enum(['fr', 'en']),
+      BuiltType._str()
+    );
+    const value: Record<'fr' | 'en', string> = translations.parse({
+      fr: 'Bonjour',
+      en: 'Hello',
+    });
+    expect(value).toEqual({ fr: 'Bonjour', en: 'Hello' });
+    expect(translations.safeParse(['Bonjour']).success).toEqual(false);
+
+    const result = translations.safeParse({ fr: 1, en: 'Hello', de: 'Hallo' });
+    expect(result.success).toEqual(false);
+    expect(result.errors?.map((issue) => issue.path)).toEqual([['fr'], ['de']]);
+
+    const scores = BuiltType._record(
+      BuiltType._str({ constraint: new StrConstraint().pattern(/^[a-z]+$/) }),
+      BuiltType._num({ coerce: true })
+    );
+    expect(scores.parse({ math: '12' })).toEqual({ math: 12 });
+    expect(scores.safeParse({ Math: 12 }).success).toEqual(false);
+  });
+
+  it('should return null values of nullable record types unchanged', async () => {
+    const value = BuiltType._record(BuiltType._str(), BuiltType._num());
+    expect(value.safeParse(null).success).toEqual(false);
+    expect(value.nullable().safeParse(null)).toEqual({
+      success: true,
+      errors: undefined,
+      data: null,
+    });
+    expect(await value.parseAsync(null)).toEqual(null);
+  });
+
+  it('should derive object types from an existing object type shape', () => {
+    const user = BuiltType._object(
+      {
+        id: BuiltType._num(),
+        firstName: BuiltType._str(),
+        password: BuiltType._str(),
+        address: BuiltType._object(
+          { city: BuiltType._str(), zipCode: BuiltType._str() },
+          { zipCode: 'zip_code' }
+        ),
+      },
+      { firstName: 'first_name' }
+    );
+
+    const create = user.omit(['id']);
+    expect(Object.keys(create.shape)).toEqual([
+      'firstName',
+      'password',
+      'address',
+    ]);
+    const payload: { firstName: string; password: string } = create.parse({
+      first_name: 'Peter',
+      password: 'secret',
+      address: { city: 'Lome', zip_code: 'BP 123' },
+    });
+    expect(payload.firstName).toEqual('Peter');
+    expect(create.reverseType.parse(payload).first_name).toEqual('Peter');
+
+    const update = create.partial();
+    expect(update.parse({ first_name: 'John' })).toEqual({
+      firstName: 'John',
+      password: undefined,
+      address: undefined,
+    });
+    expect(user.safeParse({ first_name: 'John' }).success).toEqual(false);
+    expect(update.reverseType.parse({ firstName: 'John' }).first_name).toEqual(
+      'John'
+    );
+
+    const deep = create.deepPartial();
+    expect(deep.parse({ address: { city: 'Lome' } })).toEqual({
+      firstName: undefined,
+      password: undefined,
+      address: { city: 'Lome', zipCode: undefined },
+    });
+    expect(deep.required(['firstName']).safeParse({}).success).toEqual(false);
+    expect(create.safeParse({ address: {} }).success).toEqual(false);
+
+    const view = user
+      .pick(['id', 'firstName'])
+      .extend({ fullName: BuiltType._str() }, { fullName: 'full_name' })
+      .merge(BuiltType._object({ age: BuiltType._num() }, { age: 'user_age' }));
+    const result: {
+      id: number;
+      firstName: string;
+      fullName: string;
+      age: number;
+    } = view.parse({
+      id: 1,
+      first_name: 'John',
+      full_name: 'John Doe',
+      user_age: 28,
+    });
+    expect(result).toEqual({
+      id: 1,
+      firstName: 'John',
+      fullName: 'John Doe',
+      age: 28,
+    });
+    expect(view.reverseType.parse(result)).toEqual({
+      id: 1,
+      first_name: 'John',
+      full_name: 'John Doe',
+      user_age: 28,
+    });
+  });
+
+  it('should parse recursive structures using lazy types', () => {
+    type Category = { name: string; children: Category[] };
+    type CategoryInput = { category_name: string; children: CategoryInput[] };
+    const category: ObjectType<
+      {
+        name: AbstractType<string>;
+        children: AbstractType<Category[], TypeDef, CategoryInput[]>;
+      },
+      { name: 'category_name' }
+    > = BuiltType._object(
+      {
+        name: BuiltType._str(),
+        children: BuiltType._array(BuiltType._lazy(() => category)),
+      },
+      { name: 'category_name' }
+    );
+
+    const value = category.parse({
+      category_name: 'Books',
+      children: [{ category_name: 'Novels', children: [] }],
+    });
+    expect(value.children[0].name).toEqual('Novels');
+    expect(
+      category.safeParse({
+        category_name: 'Books',
+        children: [{ category_name: 1, children: [] }],
+      }).success
+    ).toEqual(false);
+    expect(category.reverseType.parse(value)).toEqual({
+      category_name: 'Books',
+      children: [{ category_name: 'Novels', children: [] }],
+    });
+
+    const tree = BuiltType._set(BuiltType._lazy(() => category).nullable());
+    const items = new Set([null, { category_name: 'Books', children: [] }]);
+    expect(tree.safeParse(items).success).toEqual(true);
+
+    const cyclic = { category_name: 'Books', children: [] as unknown[] };
+    cyclic.children.push(cyclic);
+    expect(category.safeParse(cyclic).success).toEqual(false);
+  });
+
+  it('should asynchronously parse values using async constraint rules', async () => {
+    const taken = ['admin', 'root'];
+    const user = BuiltType._object({
+      username: BuiltType._str({
+        constraint: new StrConstraint().refineAsync(
+          async (value) => !taken.includes(value as string),
+          'username is already taken'
+        ),
+      }),
+      tags: BuiltType._array(BuiltType._str()),
+    });
+
+    await expect(
+      user.parseAsync({ username: 'john', tags: ['a', 'b'] })
+    ).resolves.toEqual({ username: 'john', tags: ['a', 'b'] });
+    const result = await user.safeParseAsync({ username: 'admin', tags: [] });
+    expect(result.success).toEqual(false);
+    expect(() => user.safeParse({ username: 'john', tags: [] })).toThrow();
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      user.safeParseAsync(
+        { username: 'john', tags: [] },
+        { signal: controller.signal }
+      )
+    ).rejects.toBeDefined();
+  });
+
+  it('should validate function arguments and return values', async () => {
+    const callback = BuiltType._function(
+      BuiltType._tuple([BuiltType._str(), BuiltType._num()]),
+      BuiltType._bool()
+    );
+
+    const isAdult = callback.implement((_, age) => age > 18);
+    expect(isAdult('John', 28)).toEqual(true);
+    expect(() =>
+      (isAdult as (...args: unknown[]) => boolean)('John', '28')
+    ).toThrow(ParseError);
+
+    const invalid = callback.parse(() => 'yes' as unknown as boolean);
+    expect(() => invalid('John', 28)).toThrow(ParseError);
+    expect(callback.safeParse('John').success).toEqual(false);
+
+    const isAdultAsync = callback.implement(async (_, age) => age > 18);
+    await expect(isAdultAsync('John', 12)).resolves.toEqual(false);
+    await expect(
+      callback.implement(async () => 'yes' as unknown as boolean)('John', 12)
+    ).rejects.toBeInstanceOf(ParseError);
+  });
+
+  it('should parse and coerce bigint values', () => {
+    const amount = BuiltType._bigint({
+      coerce: true,
+      constraint: new BigIntConstraint()
+        .positive()
+        .multipleOf(BigInt(5))
+        .max(BigInt('90071992547409950')),
+    });
+
+    expect(amount.parse('9007199254740995')).toEqual(
+      BigInt('9007199254740995')
+    );
+    expect(amount.parse(10)).toEqual(BigInt(10));
+    expect(amount.safeParse('12.5').success).toEqual(false);
+    expect(amount.safeParse(12.5).success).toEqual(false);
+    expect(amount.safeParse('abc').success).toEqual(false);
+    expect(amount.safeParse(BigInt(7)).success).toEqual(false);
+    expect(amount.safeParse(BigInt(-5)).success).toEqual(false);
+    expect(amount.safeParse('900719925474099500').success).toEqual(false);
+    expect(BuiltType._bigint().safeParse('10').success).toEqual(false);
+
+    const debt = BuiltType._bigint({
+      constraint: new BigIntConstraint().negative(),
+    });
+    const balance = BuiltType._num({
+      constraint: new NumberConstraint().negative(),
+    });
+    expect(debt.safeParse(BigInt(-5)).success).toEqual(true);
+    expect(debt.safeParse(BigInt(0)).success).toEqual(true);
+    expect(balance.safeParse(0).success).toEqual(true);
+    expect(debt.safeParse(BigInt(5)).success).toEqual(false);
+    expect(balance.safeParse(5).success).toEqual(false);
+  });
+
+  it('should parse class instances using instance types', () => {
+    class HttpError extends Error {
+      constructor(readonly status: number) {
+        super(`HTTP error ${status}`);
+      }
+    }
+    const error = BuiltType._instanceOf(Error);
+    const httpError = BuiltType._instanceOf(HttpError).nullish();
+
+    expect(error.parse(new HttpError(404))).toBeInstanceOf(HttpError);
+    expect(error.safeParse({ message: 'Not found' }).success).toEqual(false);
+    expect(httpError.parse(new HttpError(500))?.status).toEqual(500);
+    expect(httpError.safeParse(null).success).toEqual(true);
+    expect(httpError.safeParse(undefined).success).toEqual(true);
+    expect(httpError.safeParse(new Error()).success).toEqual(false);
+    expect(
+      BuiltType._instanceOf(URL).safeParse('https://example.com').success
+    ).toEqual(false);
+  });
+
+  it('should add compile time brands to parsed values', () => {
+    const UserId = BuiltType._str().brand<'UserId'>();
+    type UserId = TypeOf<typeof UserId>;
+    const getUser = (id: UserId) => ({ id });
+
+    const id = UserId.parse('usr_1');
+    expect(getUser(id)).toEqual({ id: 'usr_1' });
+    // @ts-expect-error raw strings are not branded values
+    getUser('usr_1');
+
+    const user = BuiltType._object({
+      id: UserId,
+      friends: BuiltType._array(BuiltType._str().brand<'UserId'>()),
+      manager: BuiltType._str().brand<'UserId'>().nullable(),
+    });
+    const value = user.parse({
+      id: 'usr_1',
+      friends: ['usr_2'],
+      manager: null,
+    });
+    getUser(value.id);
+    getUser(value.friends[0]);
+    if (value.manager) {
+      getUser(value.manager);
+    }
+    expect(value).toEqual({ id: 'usr_1', friends: ['usr_2'], manager: null });
+    expect(UserId.safeParse(1).success).toEqual(false);
+  });
+
+  it('should substitute default values and catch parse failures', () => {
+    const swallowed: unknown[] = [];
+    const config = BuiltType._object({
+      host: BuiltType._str().default('localhost'),
+      port: BuiltType._num({ constraint: new NumberConstraint().min(1) })
+        .default(8080)
+        .catch(({ errors }) => {
+          swallowed.push(errors);
+          return 80;
+        }),
+      tags: BuiltType._array(BuiltType._str()).default(() => []),
+    });
+
+    const value: { host: string; port: number; tags: string[] } = config.parse(
+      {}
+    );
+    expect(value).toEqual({ host: 'localhost', port: 8080, tags: [] });
+    expect(config.parse({ host: 'example.com', port: 0 })).toEqual({
+      host: 'example.com',
+      port: 80,
+      tags: [],
+    });
+    expect(swallowed.length).toEqual(1);
+    expect(config.safeParse({ host: 1 }).success).toEqual(false);
+    expect(BuiltType._str().catch('fallback').parse(1)).toEqual('fallback');
+  });
+
+  it('should not call catch hooks when checking nil values support', () => {
+    const calls: unknown[] = [];
+    const fallback = (ctx: unknown) => {
+      calls.push(ctx);
+      return 0;
+    };
+    const value = BuiltType._num().nullable().catch(fallback);
+    expect(value.safeParse(null)).toEqual({
+      success: true,
+      errors: undefined,
+      data: null,
+    });
+    expect(value.isNullable()).toEqual(true);
+    expect(value.isOptional()).toEqual(false);
+    expect(calls).toEqual([]);
+
+    const count = BuiltType._num().catch(fallback);
+    expect(count.isOptional()).toEqual(false);
+    expect(count.isNullable()).toEqual(false);
+    expect(calls).toEqual([]);
+    expect(BuiltType._num().default(1).isOptional()).toEqual(true);
+    expect(
+      BuiltType._object({ a: BuiltType._str().optional() }).isNullable()
+    ).toEqual(false);
+  });
+
+  it('should not change nil values support of the type a type is derived from', () => {
+    const name = BuiltType._str();
+    const withDefault = name.default('John').nullable();
+    expect(withDefault.safeParse(null).success).toEqual(true);
+    expect(name.safeParse(null).success).toEqual(false);
+    expect(name.isNullable()).toEqual(false);
+
+    name.describe('First name').nullish();
+    name.refine((value) => value.length > 1).optional();
+    name.catch('John').examples(['Jane']).nullable();
+    expect(name.safeParse(null).success).toEqual(false);
+    expect(name.safeParse(undefined).success).toEqual(false);
+    expect(name.isNullable()).toEqual(false);
+    expect(name.isOptional()).toEqual(false);
+  });
+
+  it('should transform, preprocess and pipe parsed values', async () => {
+    const length = BuiltType._str().transform((value) => value.length);
+    const size: number = length.parse('Hello');
+    expect(size).toEqual(5);
+    expect(length.safeParse(1).success).toEqual(false);
+
+    const date = BuiltType._str().transform((value) => {
+      const result = new Date(value);
+      if (isNaN(result.getTime())) {
+        throw new Error('Invalid date string');
+      }
+      return result;
+    });
+    expect(date.safeParse('not a date')).toEqual({
+      success: false,
+      errors: [
+        {
+          code: 'custom',
+          path: [],
+          received: 'string',
+          params: { error: 'Invalid date string' },
+          message: 'Invalid value',
+        },
+      ],
+    });
+    expect(
+      date.safeParse('not a date', { locale: 'fr' }).errors?.[0].message
+    ).toEqual('Valeur invalide');
+    await expect(
+      BuiltType._str()
+        .transform(async (value) => value.toUpperCase())
+        .parseAsync('abc')
+    ).resolves.toEqual('ABC');
+
+    const tags = BuiltType._preprocess(
+      (value) => (typeof value === 'string' ? value.split(',') : value),
+      BuiltType._array(BuiltType._str())
+    );
+    expect(tags.parse('a,b')).toEqual(['a', 'b']);
+    expect(tags.parse(['c'])).toEqual(['c']);
+
+    const age = BuiltType._str()
+      .transform((value) => parseInt(value, 10))
+      .pipe(BuiltType._num({ constraint: new NumberConstraint().min(18) }));
+    expect(age.parse('21')).toEqual(21);
+    expect(age.safeParse('12').success).toEqual(false);
+  });
+
+  it('should apply custom refinements and report issues with paths', () => {
+    const even = BuiltType._num().refine(
+      (value) => value % 2 === 0,
+      'Expect an even number'
+    );
+    expect(even.parse(4)).toEqual(4);
+    expect(even.safeParse(3)).toEqual({
+      success: false,
+      errors: [{ code: 'custom', path: [], message: 'Expect an even number' }],
+    });
+    expect(BuiltType._num().safeParse(3).success).toEqual(true);
+
+    const username = BuiltType._str({
+      constraint: new StrConstraint().refine((value) => value !== 'admin', {
+        message: 'Reserved username',
+        code: 'reserved',
+      }),
+    });
+    expect(username.safeParse('admin').errors).toEqual([
+      { code: 'reserved', path: [], message: 'Reserved username' },
+    ]);
+
+    const signup = BuiltType._object({
+      password: BuiltType._str(),
+      confirm: BuiltType._str(),
+    }).superRefine((value, ctx) => {
+      if (value.password.length < 8) {
+        ctx.addIssue({ message: 'Password is too short', path: ['password'] });
+      }
+      if (value.password !== value.confirm) {
+        ctx.addIssue({ message: 'Passwords do not match', path: ['confirm'] });
+      }
+    });
+    expect(signup.safeParse({ password: 'secret', confirm: 'other' })).toEqual({
+      success: false,
+      errors: [
+        {
+          code: 'custom',
+          path: ['password'],
+          message: 'Password is too short',
+        },
+        {
+          code: 'custom',
+          path: ['confirm'],
+          message: 'Passwords do not match',
+        },
+      ],
+    });
+    expect(
+      signup.safeParse({ password: 'long-secret', confirm: 'long-secret' })
+        .success
+    ).toEqual(true);
+  });
+
+  it('should apply refinements on parsed output values', async () => {
+    const length = BuiltType._str()
+      .transform((value) => value.length)
+      .refine((value) => value > 5, 'Expect more than 5 characters');
+    expect(length.safeParse('ab').success).toEqual(false);
+    expect(length.parse('abcdefgh')).toEqual(8);
+    expect((await length.safeParseAsync('ab')).success).toEqual(false);
+
+    const positive = BuiltType._lazy(() => BuiltType._num()).refine(
+      (value) => value > 0
+    );
+    expect(positive.safeParse(-1).success).toEqual(false);
+    expect(positive.parse(1)).toEqual(1);
+
+    const user = BuiltType._object(
+      {
+        firstName: BuiltType._str(),
+        address: BuiltType._object({ city: BuiltType._str() }),
+      },
+      { firstName: 'first_name' }
+    ).refine((value) => value.firstName !== value.address.city);
+    expect(user.safeParse({}).success).toEqual(false);
+    expect(
+      user.parse({ first_name: 'John', address: { city: 'Lome' } })
+    ).toEqual({ firstName: 'John', address: { city: 'Lome' } });
+    expect(
+      user.safeParse({ first_name: 'Lome', address: { city: 'Lome' } }).success
+    ).toEqual(false);
+  });
+
+  it('should apply unknown keys policies on object types', () => {
+    const user = BuiltType._object(
+      { firstName: BuiltType._str(), age: BuiltType._num() },
+      { firstName: 'first_name' }
+    );
+    const value = { first_name: 'John', age: 28, role: 'admin', extra: 1 };
+
+    expect(user.parse(value)).toEqual({ firstName: 'John', age: 28 });
+    expect(user.strip().parse(value)).toEqual({ firstName: 'John', age: 28 });
+    expect(user.strict().safeParse(value)).toEqual({
+      success: false,
+      errors: [
+        {
+          code: 'unrecognized_keys',
+          path: [],
+          message: 'Unrecognized keys: role, extra',
+          params: { keys: ['role', 'extra'] },
+        },
+      ],
+    });
+    expect(
+      user.strict().safeParse({ first_name: 'John', age: 28 }).success
+    ).toEqual(true);
+    expect(user.passthrough().parse(value)).toEqual({
+      firstName: 'John',
+      age: 28,
+      role: 'admin',
+      extra: 1,
+    });
+    expect(user.catchall(BuiltType._str()).safeParse(value).errors).toEqual([
+      {
+        code: 'invalid_type',
+        path: ['extra'],
+        message: 'Value must be of type string, number given',
+        expected: 'string',
+        received: 'number',
+      },
+    ]);
+    expect(
+      user
+        .catchall(BuiltType._str())
+        .parse({ first_name: 'John', age: 28, role: 'admin' })
+    ).toEqual({ firstName: 'John', age: 28, role: 'admin' });
+
+    const reverse = user.passthrough().reverseType;
+    expect(
+      reverse.parse({ firstName: 'John', age: 28, role: 'admin' })
+    ).toEqual({ first_name: 'John', age: 28, role: 'admin' });
+    expect(
+      user.strict().reverseType.safeParse({
+        firstName: 'John',
+        age: 28,
+        role: 'admin',
+      }).success
+    ).toEqual(false);
+  });
+
+  it('should keep unknown __proto__ keys as own properties of parsed objects', () => {
+    const user = BuiltType._object({ firstName: BuiltType._str() });
+    const value = JSON.parse('{"firstName":"John","__proto__":{"x":1}}');
+
+    const result = user.passthrough().parse(value) as Record<string, unknown>;
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(result['x']).toBeUndefined();
+    expect(Object.keys(result)).toEqual(['firstName', '__proto__']);
+    expect(Object.getOwnPropertyDescriptor(result, '__proto__')?.value).toEqual(
+      { x: 1 }
+    );
+
+    const catchall = user
+      .catchall(BuiltType._object({ x: BuiltType._num() }))
+      .parse(value) as Record<string, unknown>;
+    expect(Object.getPrototypeOf(catchall)).toBe(Object.prototype);
+    expect(Object.keys(catchall)).toEqual(['firstName', '__proto__']);
+  });
+
+  it('should infer optional members as optional object keys', () => {
+    const person = BuiltType._object(
+      {
+        firstName: BuiltType._str(),
+        middleName: BuiltType._str().optional(),
+        nickname: BuiltType._str().nullish(),
+        age: BuiltType._num({ coerce: true }),
+      },
+      { firstName: 'first_name' }
+    );
+    const value: TypeOf<typeof person> = person.parse({
+      first_name: 'John',
+      age: '28',
+    });
+    expect(value).toEqual({
+      firstName: 'John',
+      middleName: undefined,
+      nickname: undefined,
+      age: 28,
+    });
+    const fixture: TypeOf<typeof person> = { firstName: 'John', age: 28 };
+    const input: InputOf<typeof person> = { first_name: 'John', age: '28' };
+    expect(person.parse(input)).toEqual({
+      ...fixture,
+      middleName: undefined,
+      nickname: undefined,
+    });
+
+    expect(
+      person.safeParse({ first_name: 'John', age: 1, middleName: null })
+    ).toEqual(expect.objectContaining({ success: false }));
+    expect(BuiltType._str().optional().isNullable()).toEqual(false);
+    expect(BuiltType._str().optional().isOptional()).toEqual(true);
+  });
+
+  it('should report issues with codes and paths, and format them to error trees', () => {
+    const user = BuiltType._object(
+      {
+        name: BuiltType._str({ constraint: new StrConstraint().minLength(2) }),
+        address: BuiltType._object({ city: BuiltType._str() }),
+        tags: BuiltType._array(BuiltType._str()),
+      },
+      { name: 'user_name' }
+    );
+    const result = user.safeParse({
+      user_name: 'J',
+      address: { city: 3 },
+      tags: ['a', 2],
+    });
+    expect(result.errors?.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: 'too_small', path: ['user_name'] },
+      { code: 'invalid_type', path: ['address', 'city'] },
+      { code: 'invalid_type', path: ['tags', 1] },
+    ]);
+    expect(flatten(result.errors ?? [])).toEqual({
+      formErrors: [],
+      fieldErrors: {
+        user_name: [
+          'Expect the string length to be greater than or equal to 2',
+        ],
+        'address.city': ['Value must be of type string, number given'],
+        'tags.1': ['Value must be of type string, number given'],
+      },
+    });
+    expect(format(user.safeParse('John').errors ?? [])).toEqual({
+      errors: ['Value must be of type object, string given'],
+      fields: {},
+    });
+
+    const scores = BuiltType._map(BuiltType._str(), BuiltType._num());
+    expect(
+      scores
+        .safeParse(new Map<unknown, unknown>([[1, 'a']]))
+        .errors?.map((issue) => issue.path)
+    ).toEqual([
+      [0, 'key'],
+      [0, 'value'],
+    ]);
+
+    try {
+      user.parse({ user_name: 'John', address: {}, tags: [] });
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect((error as ParseError).issues[0].path).toEqual(['address', 'city']);
+      expect((error as ParseError).format()).toEqual({
+        errors: [],
+        fields: {
+          address: {
+            errors: [],
+            fields: {
+              city: {
+                errors: ['Value must be of type string, undefined given'],
+                fields: {},
+              },
+            },
+          },
+        },
+      });
+    }
+    expect.assertions(7);
+  });
+
+  it('should format and flatten issues reported on untrusted keys', () => {
+    const scores = BuiltType._record(BuiltType._str(), BuiltType._num());
+    const errors =
+      scores.safeParse(
+        JSON.parse('{"__proto__":"x","constructor":"y","_errors":"z"}')
+      ).errors ?? [];
+    expect(errors.map((issue) => issue.path)).toEqual([
+      ['__proto__'],
+      ['constructor'],
+      ['_errors'],
+    ]);
+
+    const formatted = format(errors);
+    expect(Object.keys(formatted.fields)).toEqual([
+      '__proto__',
+      'constructor',
+      '_errors',
+    ]);
+    expect(formatted.fields['__proto__'].errors).toEqual([
+      'Value must be of type number, string given',
+    ]);
+    expect(formatted.errors).toEqual([]);
+
+    const { fieldErrors } = flatten(errors);
+    expect(Object.keys(fieldErrors)).toEqual([
+      '__proto__',
+      'constructor',
+      '_errors',
+    ]);
+    expect(fieldErrors['constructor']).toEqual([
+      'Value must be of type number, string given',
+    ]);
+    expect(Object.getPrototypeOf(fieldErrors)).toBeNull();
+  });
+
+  it('should report issues messages using the parse operation locale', () => {
+    const price = BuiltType._num({
+      constraint: new NumberConstraint().min(10).float(),
+    });
+    expect(price.safeParse(2.5).errors).toEqual([
+      {
+        code: 'too_small',
+        path: [],
+        message: 'Expect the value to be greater than or equal to 10',
+        params: { minimum: 10, type: 'number' },
+      },
+    ]);
+    expect(price.safeParse(12).errors?.[0].message).toEqual(
+      'Expect the value to be a floating point number'
+    );
+    expect(price.safeParse(2.5, { locale: 'fr' }).errors?.[0].message).toEqual(
+      'La valeur doit être supérieure ou égale à 10'
+    );
+    expect(
+      BuiltType._array(BuiltType._str()).safeParse([1], { locale: 'fr-FR' })
+        .errors?.[0]
+    ).toEqual(
+      expect.objectContaining({
+        path: [0],
+        message: 'La valeur doit être de type string, number reçu',
+      })
+    );
+
+    const name = BuiltType._str({
+      constraint: new StrConstraint().minLength(2, 'Name is too short'),
+    });
+    expect(name.safeParse('J', { locale: 'fr' }).errors?.[0].message).toEqual(
+      'Name is too short'
+    );
+
+    registerCatalog('de', {
+      too_small: ({ params }) =>
+        `Der Wert muss mindestens ${params?.minimum} sein`,
+    });
+    setDefaultLocale('de');
+    try {
+      expect(price.safeParse(2.5).errors?.[0].message).toEqual(
+        'Der Wert muss mindestens 10 sein'
+      );
+      expect(price.safeParse(12).errors?.[0].message).toEqual(
+        'Expect the value to be a floating point number'
+      );
+    } finally {
+      setDefaultLocale('en');
+    }
+  });
+
+  it('should describe, serialize and identify parse errors', () => {
+    const user = BuiltType._object(
+      {
+        name: BuiltType._str(),
+        balance: BuiltType._bigint({
+          constraint: new BigIntConstraint().min(BigInt(0)),
+        }),
+      },
+      undefined,
+      { description: 'user' }
+    );
+    let error: unknown;
+    try {
+      user.parse({ name: 1, balance: BigInt(-1) });
+    } catch (e) {
+      error = e;
+    }
+    expect(isParseError(error)).toEqual(true);
+    const parseError = error as ParseError;
+    expect(parseError.name).toEqual('ParseError');
+    expect(parseError.message).toEqual(
+      [
+        'Failed parsing user input',
+        '  - name: Value must be of type string, number given',
+        '  - balance: Expect the value to be greater than or equal to 0',
+      ].join('\n')
+    );
+
+    const restored = ParseError.fromJSON(JSON.stringify(parseError));
+    expect(restored).toBeInstanceOf(ParseError);
+    expect(restored.message).toEqual(parseError.message);
+    expect(restored.issues[1].params).toEqual({ minimum: '0', type: 'bigint' });
+
+    jest.isolateModules(() => {
+      // a fresh module registry provides another copy of the error class
+      const errors: typeof import('../src/errors') =
+        jest.requireActual('../src/errors');
+      const foreign = new errors.ParseError([]);
+      expect(foreign).not.toBeInstanceOf(ParseError);
+      expect(isParseError(foreign)).toEqual(true);
+    });
+    expect(isParseError(new Error('Failed parsing input'))).toEqual(false);
+
+    type CodedIssue = Issue & { code: 'coded' };
+    const coded = new ParseError<CodedIssue>([
+      { code: 'coded', path: ['name'], message: 'Invalid name' },
+    ]);
+    const codes: 'coded'[] = coded.issues.map((issue) => issue.code);
+    expect(codes).toEqual(['coded']);
+    expect(coded.flatten().fieldErrors.name).toEqual(['Invalid name']);
+  });
+
+  it('should export built types as JSON schemas', () => {
+    const tree: AbstractType<unknown> = BuiltType._lazy(() =>
+      BuiltType._object({
+        label: BuiltType._str({
+          constraint: new StrConstraint().minLength(2).pattern(/^[a-z]+$/),
+        }),
+        children: BuiltType._array(tree),
+      })
+    );
+    const user = BuiltType._object(
+      {
+        name: BuiltType._str({ description: 'User full name' }),
+        age: BuiltType._num({
+          constraint: new NumberConstraint().int().between(0, 120),
+        }).nullish(),
+        tags: BuiltType._set(BuiltType._str(), {
+          constraint: new SetConstraint().nonempty(),
+        }),
+        tree,
+      },
+      { name: 'full_name' }
+    ).strict();
+
+    expect(toJSONSchema(user)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        full_name: { type: 'string', description: 'User full name' },
+        age: { type: ['integer', 'null'], minimum: 0, maximum: 120 },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          uniqueItems: true,
+          minItems: 1,
+        },
+        tree: { $ref: '#/$defs/Type1' },
+      },
+      required: ['full_name', 'tags', 'tree'],
+      additionalProperties: false,
+      $defs: {
+        Type1: {
+          type: 'object',
+          properties: {
+            label: { type: 'string', minLength: 2, pattern: '^[a-z]+$' },
+            children: { type: 'array', items: { $ref: '#/$defs/Type1' } },
+          },
+          required: ['label', 'children'],
+        },
+      },
+    });
+    expect(
+      toJSONSchema(BuiltType._tuple([BuiltType._date()]), { draft: '07' })
+    ).toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'array',
+      items: [{ type: 'string', format: 'date-time' }],
+      additionalItems: false,
+      minItems: 1,
+      maxItems: 1,
+    });
+    expect(() =>
+      toJSONSchema(BuiltType._object({ id: BuiltType._bigint() }))
+    ).toThrow(
+      'bigint type cannot be represented in JSON schema, at #/properties/id'
+    );
+    expect(
+      toJSONSchema(BuiltType._object({ id: BuiltType._bigint() }), {
+        unrepresentable: 'any',
+      }).properties
+    ).toEqual({ id: {} });
+  });
+
+  it('should export nil values support using type constraint flags', () => {
+    expect(
+      toJSONSchema(
+        BuiltType._object({ a: BuiltType._str() }, undefined, {
+          constraint: new ObjectConstraint().required('a'),
+        })
+      )
+    ).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      required: ['a'],
+    });
+    expect(
+      toJSONSchema(
+        BuiltType._object({
+          a: BuiltType._str().optional(),
+          b: BuiltType._num().default(1),
+        })
+      ).type
+    ).toEqual('object');
+    expect(
+      toJSONSchema(
+        BuiltType._object({ a: BuiltType._str().optional() }).nullable()
+      ).type
+    ).toEqual(['object', 'null']);
+    expect(toJSONSchema(BuiltType._num().catch(0)).type).toEqual('number');
+  });
+
+  it('should report regular expression flags and date ranges that cannot be exported', () => {
+    const code = BuiltType._str({
+      constraint: new StrConstraint().pattern(/^abc$/i),
+    });
+    expect(() => toJSONSchema(code)).toThrow(
+      'Pattern /^abc$/i cannot be represented in JSON schema, at #/'
+    );
+    expect(toJSONSchema(code, { unrepresentable: 'any' }).pattern).toEqual(
+      undefined
+    );
+    expect(
+      toJSONSchema(
+        BuiltType._str({
+          constraint: new StrConstraint().pattern(new RegExp('^abc$', 'u')),
+        })
+      ).pattern
+    ).toEqual('^abc$');
+    expect(
+      toJSONSchema(
+        BuiltType._str({
+          constraint: new StrConstraint().pattern(Patterns.email),
+        })
+      ).format
+    ).toEqual('email');
+
+    const date = BuiltType._date({
+      constraint: new DateContraint().min(new Date(2020, 0, 1)),
+    });
+    expect(() => toJSONSchema(BuiltType._object({ date }))).toThrow(
+      'Date minimum cannot be represented in JSON schema, at #/properties/date'
+    );
+    expect(toJSONSchema(date, { unrepresentable: 'any' }).format).toEqual(
+      'date-time'
+    );
+  });
+
+  it('should only export static default values', () => {
+    const calls: unknown[] = [];
+    const createdAt = BuiltType._num().default(() => {
+      calls.push(null);
+      return Date.now();
+    });
+    expect(toJSONSchema(createdAt)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'number',
+    });
+    expect(calls).toEqual([]);
+    expect(toJSONSchema(BuiltType._num().default(1)).default).toEqual(1);
+  });
+
+  it('should report custom rules that cannot be exported', () => {
+    const username = BuiltType._str({
+      constraint: new StrConstraint().refine((value) => value !== 'admin'),
+    });
+    expect(() => toJSONSchema(BuiltType._object({ username }))).toThrow(
+      'Custom refine rule cannot be represented in JSON schema, at #/properties/username'
+    );
+    expect(
+      toJSONSchema(BuiltType._object({ username }), { unrepresentable: 'any' })
+        .properties
+    ).toEqual({ username: {} });
+
+    const password = BuiltType._object({
+      password: BuiltType._str(),
+      confirm: BuiltType._str(),
+    }).superRefine((value, ctx) => {
+      if (value.password !== value.confirm) {
+        ctx.addIssue({ message: 'Passwords do not match', path: ['confirm'] });
+      }
+    });
+    expect(() => toJSONSchema(password)).toThrow(
+      'Custom superRefine rule cannot be represented in JSON schema, at #/'
+    );
+    expect(
+      toJSONSchema(
+        BuiltType._num().refine((value) => value % 2 === 0),
+        {
+          unrepresentable: 'any',
+        }
+      )
+    ).toEqual({ $schema: 'https://json-schema.org/draft/2020-12/schema' });
+  });
+
+  it('should build built types from JSON schemas', () => {
+    const user = fromJSONSchema({
+      $defs: {
+        node: {
+          type: 'object',
+          properties: {
+            label: { type: 'string', minLength: 2, pattern: '^[a-z]+$' },
+            children: { type: 'array', items: { $ref: '#/$defs/node' } },
+          },
+          required: ['label'],
+        },
+      },
+      type: 'object',
+      properties: {
+        name: { type: 'string', maxLength: 10 },
+        age: { type: ['integer', 'null'], minimum: 0, maximum: 120 },
+        role: { enum: ['admin', 'user'] },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        tree: { $ref: '#/$defs/node' },
+      },
+      required: ['name', 'age'],
+      additionalProperties: false,
+    });
+
+    expect(
+      user.parse({
+        name: 'John',
+        age: null,
+        tree: { label: 'root', children: [{ label: 'leaf' }] },
+      })
+    ).toEqual({
+      name: 'John',
+      age: null,
+      tree: { label: 'root', children: [{ label: 'leaf' }] },
+    });
+    expect(user.safeParse({ name: 'John' }).success).toEqual(false);
+    expect(user.safeParse({ name: 'John', age: 1.5 }).success).toEqual(false);
+    expect(user.safeParse({ name: 'John', age: 2, tags: [] }).success).toEqual(
+      false
+    );
+    expect(
+      user.safeParse({ name: 'John', age: 2, role: 'guest' }).success
+    ).toEqual(false);
+    expect(
+      user.safeParse({ name: 'John', age: 2, tree: { label: 'A' } }).success
+    ).toEqual(false);
+    expect(
+      user.safeParse({ name: 'John', age: 2, email: 'john@example.com' })
+        .success
+    ).toEqual(false);
+    expect(() =>
+      fromJSONSchema({
+        type: 'array',
+        items: { type: 'string' },
+        uniqueItems: true,
+        allOf: [{ minItems: 1 }],
+      })
+    ).toThrow(
+      [
+        'JSON schema contains keywords that cannot be honoured:',
+        '  - #/: uniqueItems',
+        '  - #/: allOf',
+      ].join('\n')
+    );
+    expect(
+      fromJSONSchema(
+        { type: 'array', items: { type: 'string' }, uniqueItems: true },
+        { unsupported: 'ignore' }
+      ).parse(['a', 'a'])
+    ).toEqual(['a', 'a']);
+  });
+
+  it('should report unknown JSON schema string formats', () => {
+    expect(() =>
+      fromJSONSchema({
+        type: 'object',
+        properties: {
+          website: { type: 'string', format: 'uri' },
+          ip: { type: 'string', format: 'ipv4' },
+        },
+      })
+    ).toThrow(
+      [
+        'JSON schema contains keywords that cannot be honoured:',
+        '  - #/properties/website: format uri',
+        '  - #/properties/ip: format ipv4',
+      ].join('\n')
+    );
+    expect(
+      fromJSONSchema(
+        { type: 'string', format: 'uri' },
+        { unsupported: 'ignore' }
+      ).parse('example')
+    ).toEqual('example');
+    expect(
+      fromJSONSchema({ type: 'string', format: 'email' }).safeParse('example')
+        .success
+    ).toEqual(false);
+  });
+
+  it('should keep additional properties allowed by JSON schemas', () => {
+    for (const schema of [
+      { type: 'object', properties: { name: { type: 'string' } } },
+      {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        additionalProperties: true,
+      },
+    ]) {
+      expect(fromJSONSchema(schema).parse({ name: 'John', age: 30 })).toEqual({
+        name: 'John',
+        age: 30,
+      });
+    }
+    expect(
+      fromJSONSchema({
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        additionalProperties: { type: 'number' },
+      }).safeParse({ name: 'John', age: '30' }).success
+    ).toEqual(false);
+  });
+
+  it('should build null types from null JSON schema constants', () => {
+    for (const schema of [{ const: null }, { enum: [null] }]) {
+      const value = fromJSONSchema(schema);
+      expect(value._def.kind).toEqual('null');
+      expect(value.parse(null)).toEqual(null);
+      expect(value.safeParse('null').success).toEqual(false);
+    }
+  });
+
+  it('should generate OpenAPI components from built types', () => {
+    const address = BuiltType._object({
+      city: BuiltType._str().describe('City name'),
+    }).examples([{ city: 'Lome' }]);
+    const category: AbstractType<unknown> = BuiltType._lazy(() =>
+      BuiltType._object({
+        label: BuiltType._str(),
+        children: BuiltType._array(category),
+      })
+    );
+    const user = BuiltType._object(
+      {
+        name: BuiltType._str(),
+        address,
+        verified: BuiltType._bool().default(false),
+      },
+      { name: 'full_name' }
+    );
+    const order = BuiltType._object({
+      total: BuiltType._num(),
+      address,
+      category,
+      buyer: user,
+    });
+
+    expect(toOpenAPIComponents({ User: user, Order: order })).toEqual({
+      schemas: {
+        UserRequest: {
+          type: 'object',
+          properties: {
+            full_name: { type: 'string' },
+            address: { $ref: '#/components/schemas/UserAddress' },
+            verified: { type: 'boolean', default: false },
+          },
+          required: ['full_name', 'address'],
+        },
+        UserResponse: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            address: { $ref: '#/components/schemas/UserAddress' },
+            verified: { type: 'boolean' },
+          },
+          required: ['name', 'address', 'verified'],
+        },
+        OrderRequest: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            address: { $ref: '#/components/schemas/UserAddress' },
+            category: { $ref: '#/components/schemas/OrderCategory' },
+            buyer: { $ref: '#/components/schemas/UserRequest' },
+          },
+          required: ['total', 'address', 'category', 'buyer'],
+        },
+        OrderResponse: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            address: { $ref: '#/components/schemas/UserAddress' },
+            category: { $ref: '#/components/schemas/OrderCategory' },
+            buyer: { $ref: '#/components/schemas/UserResponse' },
+          },
+          required: ['total', 'address', 'category', 'buyer'],
+        },
+        UserAddress: {
+          type: 'object',
+          properties: { city: { type: 'string', description: 'City name' } },
+          required: ['city'],
+          examples: [{ city: 'Lome' }],
+        },
+        OrderCategory: {
+          type: 'object',
+          properties: {
+            label: { type: 'string' },
+            children: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/OrderCategory' },
+            },
+          },
+          required: ['label', 'children'],
+        },
+      },
+    });
+  });
+
+  it('should print TypeScript declarations of built types', () => {
+    const tree: AbstractType<unknown> = BuiltType._lazy(() =>
+      BuiltType._object({
+        label: BuiltType._str(),
+        children: BuiltType._array(tree),
+      })
+    );
+    const user = BuiltType._object(
+      {
+        name: BuiltType._str().describe('User full name'),
+        age: BuiltType._num().nullish(),
+        city: BuiltType._str(),
+        tags: BuiltType._set(
+          BuiltType._union([BuiltType._str(), BuiltType._num()])
+        ),
+        scores: BuiltType._array(BuiltType._num().nullable()),
+        metadata: BuiltType._map(BuiltType._str(), BuiltType._bool()),
+        role: BuiltType._enum(['admin', 'user']).default('user'),
+        tree,
+      },
+      { name: 'full_name', city: 'address.city' }
+    ).describe('Application user');
+
+    expect(printTypeScript(user, { name: 'User', input: true })).toEqual(
+      [
+        '/** Application user */',
+        'export interface User {',
+        '  /** User full name */',
+        '  name: string;',
+        '  age?: number | null;',
+        '  city: string;',
+        '  tags: Set<string | number>;',
+        '  scores: (number | null)[];',
+        '  metadata: Map<string, boolean>;',
+        '  role: "admin" | "user";',
+        '  tree: UserType1;',
+        '}',
+        '',
+        'export interface UserType1 {',
+        '  label: string;',
+        '  children: UserType1[];',
+        '}',
+        '',
+        '/** Application user */',
+        'export interface UserInput {',
+        '  /** User full name */',
+        '  full_name: string;',
+        '  age?: number | null;',
+        '  address: {',
+        '    city: string;',
+        '  };',
+        '  tags: Set<string | number>;',
+        '  scores: (number | null)[];',
+        '  metadata: Map<string, boolean>;',
+        '  role?: "admin" | "user";',
+        '  tree: UserInputType1;',
+        '}',
+        '',
+        'export interface UserInputType1 {',
+        '  label: string;',
+        '  children: UserInputType1[];',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(
+      printTypeScript(BuiltType._str().nullish(), { name: 'Name' })
+    ).toEqual('export type Name = string | null | undefined;\n');
+
+    const settings = BuiltType._object({
+      b: BuiltType._object({ c: BuiltType._num().default(1) }),
+    });
+    expect(printTypeScript(settings, { name: 'Settings' })).toEqual(
+      [
+        'export interface Settings {',
+        '  b: {',
+        '    c: number;',
+        '  };',
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(
+      printTypeScript(settings.nullable(), { name: 'NullableSettings' })
+    ).toEqual(
+      [
+        'export type NullableSettings = {',
+        '  b: {',
+        '    c: number;',
+        '  };',
+        '} | null;',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should serialize built types and revive them from their descriptor', () => {
+    const isEven = (value: number) => value % 2 === 0;
+    registerFunction('isEven', isEven);
+    const tree: AbstractType<unknown> = BuiltType._lazy(() =>
+      BuiltType._object({
+        label: BuiltType._str({
+          constraint: new StrConstraint().minLength(2).pattern(/^[a-z]+$/i),
+        }),
+        children: BuiltType._array(tree),
+      })
+    );
+    const user = BuiltType._object(
+      {
+        name: BuiltType._str().describe('User full name'),
+        age: BuiltType._num({ constraint: new NumberConstraint().int() })
+          .refine(isEven, { message: 'Expect an even age', code: 'even' })
+          .nullish(),
+        id: BuiltType._bigint({
+          constraint: new BigIntConstraint().min(BigInt(1)),
+        }),
+        role: BuiltType._enum(['admin', 'user']).default('user'),
+        tree,
+      },
+      { name: 'full_name' }
+    ).strict();
+
+    const descriptor = JSON.parse(JSON.stringify(serialize(user)));
+    expect(descriptor.version).toEqual(1);
+    expect(descriptor.type.propMap).toEqual({ name: 'full_name' });
+    expect(descriptor.type.shape.id.rules).toEqual([
+      {
+        name: 'min',
+        params: { minimum: { $bigint: '1' }, type: 'bigint' },
+      },
+    ]);
+
+    const revived = revive(descriptor);
+    expect(
+      revived.parse({
+        full_name: 'John',
+        age: 30,
+        id: BigInt(2),
+        tree: { label: 'Root', children: [{ label: 'leaf', children: [] }] },
+      })
+    ).toEqual({
+      name: 'John',
+      age: 30,
+      id: BigInt(2),
+      role: 'user',
+      tree: { label: 'Root', children: [{ label: 'leaf', children: [] }] },
+    });
+    expect(revived._def.shape.name.description).toEqual('User full name');
+    const result = revived.safeParse({
+      full_name: 'John',
+      age: 31,
+      id: BigInt(0),
+      tree: { label: '1', children: [] },
+    });
+    expect(result.errors?.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: ['age'], code: 'even' },
+      { path: ['id'], code: 'too_small' },
+      { path: ['tree', 'label'], code: 'too_small' },
+      { path: ['tree', 'label'], code: 'invalid_string' },
+    ]);
+    expect(
+      revived.safeParse({
+        full_name: 'J',
+        id: BigInt(1),
+        tree: { label: 'ab', children: [] },
+        extra: true,
+      }).success
+    ).toEqual(false);
+
+    expect(() =>
+      serialize(BuiltType._num().refine((value) => value > 0))
+    ).toThrow(
+      'Rule refine_0 cannot be serialized as it is not registered using registerFunction(), at #/type'
+    );
+    expect(() =>
+      revive({ version: 1, type: { kind: 'unknown' as never } })
+    ).toThrow('Unknown built type kind unknown, at #/type');
+  });
+
+  it('should only serialize static default and catch values', () => {
+    let i = 0;
+    expect(() => serialize(BuiltType._num().default(() => ++i))).toThrow(
+      'Default function cannot be serialized as it is not registered using registerFunction(), at #/type'
+    );
+    expect(() =>
+      serialize(BuiltType._num().catch(({ input }) => (input === 'x' ? 1 : 2)))
+    ).toThrow(
+      'Catch function cannot be serialized as it is not registered using registerFunction(), at #/type'
+    );
+    expect(i).toEqual(0);
+
+    const descriptor = serialize(BuiltType._num().default(3).catch(0));
+    expect(descriptor.type.default).toEqual({ value: 3 });
+    expect(descriptor.type.catch).toEqual({ value: 0 });
+    const revived = revive(JSON.parse(JSON.stringify(descriptor)));
+    expect(revived.parse(undefined)).toEqual(3);
+    expect(revived.parse('x')).toEqual(0);
+
+    const now = () => 1;
+    registerFunction('now', now);
+    expect(serialize(BuiltType._num().default(now)).type.default).toEqual({
+      fn: 'now',
+    });
+  });
+
+  it('should generate values satisfying built types from a seed', () => {
+    const category: AbstractType<unknown> = BuiltType._object({
+      label: BuiltType._str(),
+      children: BuiltType._array(BuiltType._lazy(() => category)),
+    });
+    const user = BuiltType._object(
+      {
+        id: BuiltType._str({
+          constraint: new StrConstraint().pattern(Patterns.uuid),
+        }),
+        email: BuiltType._str({
+          constraint: new StrConstraint().pattern(Patterns.email),
+        }),
+        name: BuiltType._str({
+          constraint: new StrConstraint().minLength(2).maxLength(4),
+        }),
+        age: BuiltType._num({
+          constraint: new NumberConstraint().int().between(18, 20),
+        }),
+        score: BuiltType._num({
+          constraint: new NumberConstraint().positive().max(1),
+        }),
+        balance: BuiltType._bigint({
+          constraint: new BigIntConstraint().multipleOf(BigInt(5)),
+        }),
+        birthdate: BuiltType._date({
+          constraint: new DateContraint()
+            .min(new Date('2000-01-01'))
+            .max(new Date('2000-01-31')),
+        }),
+        role: BuiltType._enum(['admin', 'user']),
+        tags: BuiltType._array(BuiltType._str(), {
+          constraint: new ArrayConstraint().length(2),
+        }),
+        ids: BuiltType._set(BuiltType._num(), {
+          constraint: new SetConstraint().min(3),
+        }),
+        nickname: BuiltType._str({ constraint: new StrConstraint().nullish() }),
+        category,
+      },
+      { name: 'full_name' }
+    );
+
+    for (let seed = 0; seed < 20; seed++) {
+      const value = generate(user, { seed });
+      expect(generate(user, { seed })).toEqual(value);
+      expect(value).toHaveProperty('full_name');
+      const result = user.safeParse(value);
+      expect(result.errors ?? []).toEqual([]);
+      expect(result.data?.tags).toHaveLength(2);
+      expect(result.data?.ids.size).toBeGreaterThanOrEqual(3);
+    }
+    expect(generate(user, { seed: 'users' })).not.toEqual(
+      generate(user, { seed: 'roles' })
+    );
+    expect(
+      generate(
+        BuiltType._num().refine((value) => value > 500),
+        { seed: 1 }
+      )
+    ).toBeGreaterThan(500);
+    expect(() =>
+      generate(
+        BuiltType._str({ constraint: new StrConstraint().pattern(/^\d+$/) })
+      )
+    ).toThrow('Cannot generate a string matching /^\\d+$/, at #/');
+
+    const narrow = BuiltType._num({
+      constraint: new NumberConstraint().between(0.555, 0.559),
+    });
+    for (let seed = 0; seed < 10; seed++) {
+      expect(narrow.safeParse(generate(narrow, { seed })).success).toEqual(
+        true
+      );
+    }
+
+    const past = BuiltType._date({
+      constraint: new DateContraint().max(new Date(1990, 0, 1)),
+    });
+    const future = BuiltType._date({
+      constraint: new DateContraint().min(new Date(2050, 0, 1)),
+    });
+    for (const date of [past, future]) {
+      const values = [1, 2, 3].map((seed) => generate(date, { seed }));
+      values.forEach((value) => {
+        expect(date.safeParse(value).success).toEqual(true);
+      });
+      expect(new Set(values.map((value) => value.getTime())).size).toEqual(3);
+    }
+  });
 });
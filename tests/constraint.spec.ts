@@ -1,9 +1,14 @@
 import {
   ArrayConstraint,
   BoolConstraint,
+  BuiltType,
+  DateContraint,
+  MapConstraint,
   NumberConstraint,
   SetConstraint,
   StrConstraint,
+  revive,
+  serialize,
 } from '../src';
 
 describe('Constraint', () => {
@@ -47,4 +52,42 @@ describe('Constraint', () => {
     expect(new SetConstraint().max(2).apply(new Set([1, 2, 3])).fails()).toBe(true);
     expect(new SetConstraint().max(2).apply(new Set([1])).fails()).toBe(false);
   });
+
+  it('should reject null values of map and set constraints', () => {
+    expect(new MapConstraint().apply(null).fails()).toBe(true);
+    expect(new MapConstraint().apply(new Map()).fails()).toBe(false);
+    expect(new SetConstraint().apply(null).fails()).toBe(true);
+    expect(new SetConstraint().apply(new Set()).fails()).toBe(false);
+    expect(new SetConstraint().nullable().apply(null).fails()).toBe(false);
+  });
+
+  it('should chain the string not empty rule with other string rules', () => {
+    const constraint = new StrConstraint().notEmpty().endsWith('.ts');
+    expect(constraint.apply('index.ts').fails()).toBe(false);
+    expect(constraint.apply('   ').fails()).toBe(true);
+    expect(constraint.apply('index.js').fails()).toBe(true);
+    expect(constraint.rules?.map(({ name }) => name)).toEqual([
+      'not_empty',
+      'ends_with',
+    ]);
+
+    const name = revive(
+      serialize(BuiltType._str({ constraint: new StrConstraint().notEmpty() }))
+    );
+    expect(name.safeParse(' ').success).toBe(false);
+    expect(name.parse('John')).toEqual('John');
+  });
+
+  it('should only accept numbers greater than 0 using the positive rule', () => {
+    expect(new NumberConstraint().positive().apply(2).fails()).toBe(false);
+    expect(new NumberConstraint().positive().apply(0).fails()).toBe(true);
+    expect(new NumberConstraint().positive().apply(-2).fails()).toBe(true);
+  });
+
+  it('should only accept dates before the maximum date', () => {
+    const constraint = new DateContraint().max(new Date(2020, 0, 31));
+    expect(constraint.apply(new Date(2020, 0, 1)).fails()).toBe(false);
+    expect(constraint.apply(new Date(2020, 0, 31)).fails()).toBe(false);
+    expect(constraint.apply(new Date(2020, 1, 1)).fails()).toBe(true);
+  });
 });